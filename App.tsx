@@ -26,15 +26,24 @@ import {
   Quote as LucideQuote,
   Plus,
   Github,
-  GitBranch
+  GitBranch,
+  ScanSearch,
+  Paperclip
 } from 'lucide-react';
 import { ChatNode } from './components/ChatNode';
 import { ResearchNode } from './components/ResearchNode';
 import { NoteNode } from './components/NoteNode';
-import { ChatNodeData, ResearchNodeData, NoteNodeData, AppNode, ChatNodeType, ResearchNodeType, NoteNodeType, Canvas } from './types';
+import { ChatNodeData, ResearchNodeData, NoteNodeData, AppNode, ChatNodeType, ResearchNodeType, NoteNodeType, Canvas, Source, SubtreeUsage, TokenUsage } from './types';
 import { SettingsModal } from './components/SettingsModal';
+import { InspectorPanel } from './components/InspectorPanel';
+import { DocumentsPanel } from './components/DocumentsPanel';
+import { CanvasContext, CanvasSettings } from './components/CanvasContext';
 import { CanvasList } from './components/CanvasList';
 import { generateCanvasTitle } from './services/titleGenerator';
+import { getProfile } from './services/profiles';
+import { ModelPrice, describeUsage, getNodeUsage, loadPrices, sumUsage } from './services/usage';
+import { mergeSources } from './services/sources';
+import { deleteCanvasDocuments } from './services/documents';
 
 const nodeTypes = {
   chatNode: ChatNode,
@@ -59,12 +68,51 @@ const initialNodes: Node<ChatNodeData>[] = [
   },
 ];
 
+// BFS to find all downstream nodes and edges
+const collectDescendants = (nodeId: string, edges: Edge[]) => {
+  const queue = [nodeId];
+  const visited = new Set<string>();
+  const descendantNodeIds = new Set<string>();
+  const descendantEdgeIds = new Set<string>();
+
+  while (queue.length > 0) {
+    const curr = queue.shift()!;
+    if (visited.has(curr)) continue;
+    visited.add(curr);
+
+    const outgoingEdges = edges.filter(e => e.source === curr);
+    outgoingEdges.forEach(e => {
+      descendantEdgeIds.add(e.id);
+      // Only add target if we haven't visited it (standard tree/DAG traversal)
+      if (!visited.has(e.target)) {
+        descendantNodeIds.add(e.target);
+        queue.push(e.target);
+      }
+    });
+  }
+  return { descendantNodeIds, descendantEdgeIds };
+};
+
+// Tokens and cost of the node plus everything hidden under it
+const describeSubtreeUsage = (nodeId: string, nodes: Node[], edges: Edge[], prices?: ModelPrice[]): SubtreeUsage => {
+  const { descendantNodeIds } = collectDescendants(nodeId, edges);
+  return describeUsage(sumUsage(
+    nodes
+      .filter(n => n.id === nodeId || descendantNodeIds.has(n.id))
+      .flatMap(n => getNodeUsage(n.data)),
+    prices
+  ));
+};
+
 const Flow = () => {
   const [nodes, setNodes, onNodesChange] = useNodesState<AppNode>([]); // Start empty
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const { getNode, getNodes, getEdges, toObject, setViewport, fitView, getZoom } = useReactFlow();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isSettingsOpen, setIsSettingsOpen] = React.useState(false);
+  const [isInspectorOpen, setIsInspectorOpen] = React.useState(false);
+  const [isDocumentsOpen, setIsDocumentsOpen] = React.useState(false);
+  const [priceVersion, setPriceVersion] = React.useState(0); // Bumped when Settings saves prices
 
   // Multi-canvas state
   const [canvases, setCanvases] = React.useState<Canvas[]>([]);
@@ -168,7 +216,7 @@ const Flow = () => {
         inputText: '',
         isRoot: true, // Independent nodes created manually act as roots? Or just standalone? Let's say true.
         isSearchEnabled: false,
-        reasoningMode: 'off',
+        reasoningMode: getProfile().reasoningMode,
         onBranch: onBranch
       }
     };
@@ -313,8 +361,23 @@ const Flow = () => {
 
       return newCanvases;
     });
+    deleteCanvasDocuments(canvasId).catch(error => console.error('Failed to delete canvas documents:', error));
   }, [canvases.length, activeCanvasId, setNodes, setEdges, setViewport]);
 
+  const handleSetCanvasPreset = useCallback((presetId: string | undefined) => {
+    setCanvases(prev => prev.map(canvas =>
+      canvas.id === activeCanvasId
+        ? { ...canvas, promptPresetId: presetId, updatedAt: Date.now() }
+        : canvas
+    ));
+  }, [activeCanvasId]);
+
+  const activeCanvas = canvases.find(c => c.id === activeCanvasId);
+  const canvasSettings = React.useMemo<CanvasSettings>(
+    () => ({ id: activeCanvas?.id, title: activeCanvas?.title || '', promptPresetId: activeCanvas?.promptPresetId }),
+    [activeCanvas?.id, activeCanvas?.title, activeCanvas?.promptPresetId]
+  );
+
   const handleRenameCanvas = useCallback((canvasId: string, newTitle: string) => {
     setCanvases(prev => prev.map(canvas =>
       canvas.id === canvasId
@@ -343,10 +406,12 @@ const Flow = () => {
         setTitleGenerationAttempted(prev => new Set(prev).add(activeCanvasId));
 
         // Generate title asynchronously
-        generateCanvasTitle(conversationContent).then(title => {
+        let titleUsage: TokenUsage | undefined;
+        generateCanvasTitle(conversationContent, usage => { titleUsage = usage; }).then(title => {
           setCanvases(prev => prev.map(canvas => {
             if (canvas.id === activeCanvasId) {
-              return { ...canvas, title, updatedAt: Date.now() };
+              const usage = titleUsage ? [...(canvas.usage || []), titleUsage] : canvas.usage;
+              return { ...canvas, title, usage, updatedAt: Date.now() };
             }
             return canvas;
           }));
@@ -363,28 +428,7 @@ const Flow = () => {
       // Get FRESH state directly from ReactFlow instance
       const currentNodes = getNodes();
       const currentEdges = getEdges();
-
-      // BFS to find all downstream nodes and edges
-      const queue = [nodeId];
-      const visited = new Set<string>();
-      const descendantNodeIds = new Set<string>();
-      const descendantEdgeIds = new Set<string>();
-
-      while (queue.length > 0) {
-        const curr = queue.shift()!;
-        if (visited.has(curr)) continue;
-        visited.add(curr);
-
-        const outgoingEdges = currentEdges.filter(e => e.source === curr);
-        outgoingEdges.forEach(e => {
-          descendantEdgeIds.add(e.id);
-          // Only add target if we haven't visited it (standard tree/DAG traversal)
-          if (!visited.has(e.target)) {
-            descendantNodeIds.add(e.target);
-            queue.push(e.target);
-          }
-        });
-      }
+      const { descendantNodeIds, descendantEdgeIds } = collectDescendants(nodeId, currentEdges);
 
       // Update Edges
       setEdges((eds) => eds.map(e => {
@@ -405,7 +449,8 @@ const Flow = () => {
             data: {
               ...n.data,
               collapsed: shouldCollapse,
-              collapsedCount: shouldCollapse ? descendantNodeIds.size : 0
+              collapsedCount: shouldCollapse ? descendantNodeIds.size : 0,
+              collapsedUsage: shouldCollapse ? describeSubtreeUsage(nodeId, currentNodes, currentEdges) : undefined
             }
           };
         }
@@ -417,9 +462,35 @@ const Flow = () => {
   );
 
 
-  // Function to create a new branch
+  // Keep the totals on collapsed nodes current when a hidden branch makes new calls or the prices
+  // change. Usage lists only grow, so their lengths (and the tree shape) say when to recount;
+  // dragging or streaming text doesn't.
+  const prices = React.useMemo(() => loadPrices(), [priceVersion]);
+  const usageKey = nodes.map(n => `${n.id}:${n.data.collapsed ? 1 : 0}:${getNodeUsage(n.data).length}`).join('|');
+  const treeKey = edges.map(e => `${e.source}>${e.target}`).join('|');
+  const collapsedUsage = React.useMemo(() => {
+    const currentNodes = getNodes();
+    const currentEdges = getEdges();
+    return new Map(currentNodes
+      .filter(n => n.data.collapsed)
+      .map(n => [n.id, describeSubtreeUsage(n.id, currentNodes, currentEdges, prices)]));
+  }, [usageKey, treeKey, prices, getNodes, getEdges]);
+
+  React.useEffect(() => {
+    const isShown = (n: Node) => {
+      const shown = n.data.collapsedUsage as SubtreeUsage | undefined;
+      const usage = collapsedUsage.get(n.id)!;
+      return shown?.label === usage.label && shown?.details === usage.details;
+    };
+    if (getNodes().every(n => !collapsedUsage.has(n.id) || isShown(n))) return;
+    setNodes((nds) => nds.map(n => collapsedUsage.has(n.id) && !isShown(n)
+      ? { ...n, data: { ...n.data, collapsedUsage: collapsedUsage.get(n.id) } } as AppNode
+      : n));
+  }, [collapsedUsage, getNodes, setNodes]);
+
+  // Function to create a new branch: a chat about the quoted text, or follow-up research
   const onBranch = useCallback(
-    (quoteText: string, sourceNodeId: string) => {
+    (quoteText: string, sourceNodeId: string, kind: 'chatNode' | 'researchNode' = 'chatNode') => {
       const sourceNode = getNode(sourceNodeId);
       if (!sourceNode) return;
 
@@ -431,11 +502,17 @@ const Flow = () => {
               const chatNode = node as ChatNodeType;
               const currentHighlights = chatNode.data.highlights || [];
               if (!currentHighlights.includes(quoteText)) {
+                const highlights = [...currentHighlights, quoteText];
+                // Highlights belong to the response version the quote was taken from
+                const responses = chatNode.data.responses?.map((version, index) =>
+                  index === chatNode.data.activeResponseIndex ? { ...version, highlights } : version
+                );
                 return {
                   ...node,
                   data: {
                     ...node.data,
-                    highlights: [...currentHighlights, quoteText]
+                    highlights,
+                    responses
                   }
                 };
               }
@@ -445,7 +522,7 @@ const Flow = () => {
         );
       }
 
-      const newNodeId = `node-${Date.now()}`;
+      const newNodeId = kind === 'researchNode' ? `research-${Date.now()}` : `node-${Date.now()}`;
 
       // Calculate position for new node
       // Research nodes are wider (600px) than Chat nodes (412px)
@@ -464,18 +541,52 @@ const Flow = () => {
       // So usage defaults or 'off'/false for Research parents for now.
       const inheritedReasoning = 'reasoningMode' in parentData ? parentData.reasoningMode : 'off';
       const inheritedSearch = 'isSearchEnabled' in parentData ? parentData.isSearchEnabled : false;
-
-      const newNode: Node<ChatNodeData> = {
+      const inheritedTools = 'enabledTools' in parentData ? parentData.enabledTools as string[] | undefined : undefined;
+      const inheritedProfileId = 'profileId' in parentData ? parentData.profileId as string | undefined : undefined;
+      const inheritedPresetId = 'promptPresetId' in parentData ? parentData.promptPresetId as string | undefined : undefined;
+      // Keep citation numbers stable down the branch; page text and extracts stay with the node
+      // that found them, and branches read them from there (withSourceContent)
+      const inheritedSources = mergeSources(
+        'inheritedSources' in parentData ? parentData.inheritedSources as Source[] | undefined : undefined,
+        'sources' in parentData ? parentData.sources as Source[] | undefined : undefined
+      ).map(({ content, passages, ...source }) => source);
+      // Remember which answer was quoted so context stays stable if the parent is regenerated
+      const quoteVersion = sourceNode.type === 'chatNode' ? (parentData as ChatNodeData).activeResponseIndex : undefined;
+
+      const newNode: AppNode = kind === 'researchNode' ? {
+        id: newNodeId,
+        type: 'researchNode',
+        position: newPosition,
+        data: {
+          id: newNodeId,
+          query: quoteText,
+          status: 'idle',
+          steps: [],
+          answer: '',
+          sources: [],
+          onBranch: onBranch,
+          onCollapse: onCollapse,
+          promptPresetId: inheritedPresetId,
+          planFirst: 'planFirst' in parentData ? parentData.planFirst as boolean | undefined : undefined,
+          report: 'report' in parentData ? parentData.report as boolean | undefined : undefined,
+          inheritedSources: inheritedSources.length > 0 ? inheritedSources : undefined,
+        },
+      } : {
         id: newNodeId,
         type: 'chatNode',
         position: newPosition,
         data: {
           id: newNodeId,
           quote: quoteText,
+          quoteVersion,
           onBranch: onBranch, // Recursive callback passing
           onCollapse: onCollapse,
           reasoningMode: inheritedReasoning,
           isSearchEnabled: inheritedSearch,
+          enabledTools: inheritedTools,
+          profileId: inheritedProfileId,
+          promptPresetId: inheritedPresetId,
+          inheritedSources: inheritedSources.length > 0 ? inheritedSources : undefined,
         },
       };
 
@@ -853,116 +964,144 @@ const Flow = () => {
 
       {/* Main Canvas Area */}
       <div className="flex-1 relative">
-        <ReactFlow
-          nodes={nodes}
-          edges={edges}
-          onNodesChange={onNodesChange}
-          onEdgesChange={onEdgesChange}
-          onConnect={onConnect}
-          nodeTypes={nodeTypes}
-          fitView
-          minZoom={0.1}
-          maxZoom={1.5}
-          deleteKeyCode={['Backspace', 'Delete']}
-          defaultEdgeOptions={{
-            type: 'smoothstep',
-            animated: true,
-            style: { stroke: '#cbd5e1', strokeWidth: 2 },
-            markerEnd: {
-              type: MarkerType.ArrowClosed,
-              color: '#cbd5e1',
-            },
-          }}
-        >
-          <Background
-            variant={BackgroundVariant.Dots}
-            gap={20}
-            size={1}
-            color="#cbd5e1"
-          />
-          <Controls className="bg-white shadow-lg border border-slate-200 rounded-lg overflow-hidden text-slate-600" />
-
-          {/* Create Node Buttons */}
-          <div className="absolute top-4 left-4 z-50 flex gap-2">
-            <button
-              onClick={handleAddChatNode}
-              className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white px-3 py-2 rounded-lg font-medium shadow-sm transition-all duration-200 hover:shadow-lg hover:-translate-y-0.5 active:translate-y-0"
-            >
-              <div className="flex items-center justify-center bg-white/20 p-1 rounded">
-                <MessageSquare className="w-4 h-4" />
-              </div>
-              <span>New Chat</span>
-            </button>
-            <button
-              onClick={handleAddResearchNode}
-              className="flex items-center gap-2 bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 text-white px-3 py-2 rounded-lg font-medium shadow-sm transition-all duration-200 hover:shadow-lg hover:-translate-y-0.5 active:translate-y-0"
-            >
-              <div className="flex items-center justify-center bg-white/20 p-1 rounded">
-                <BookOpenIcon className="w-4 h-4" />
-              </div>
-              <span>New Research</span>
-            </button>
-            <button
-              onClick={handleAddNoteNode}
-              className="flex items-center gap-2 bg-gradient-to-r from-amber-600 to-amber-700 hover:from-amber-700 hover:to-amber-800 text-white px-3 py-2 rounded-lg font-medium shadow-sm transition-all duration-200 hover:shadow-lg hover:-translate-y-0.5 active:translate-y-0"
-            >
-              <div className="flex items-center justify-center bg-white/20 p-1 rounded">
-                <FileText className="w-4 h-4" />
-              </div>
-              <span>New Note</span>
-            </button>
-          </div>
-
-          {/* Action Buttons */}
-          <div className="absolute top-4 left-4 mt-14 z-50 flex gap-2">
-            <button
-              onClick={onClear}
-              className="w-9 h-9 bg-white hover:bg-red-50 text-slate-700 hover:text-red-600 rounded-lg shadow-sm border border-slate-200 flex items-center justify-center transition-colors"
-              title="Clear Canvas"
-            >
-              <RotateCcw className="w-5 h-5" />
-            </button>
-            <button
-              onClick={onSave}
-              className="w-9 h-9 bg-white hover:bg-slate-50 text-slate-700 rounded-lg shadow-sm border border-slate-200 flex items-center justify-center transition-colors"
-              title="Save JSON"
-            >
-              <Download className="w-5 h-5" />
-            </button>
-            <button
-              onClick={triggerFileUpload}
-              className="w-9 h-9 bg-white hover:bg-slate-50 text-slate-700 rounded-lg shadow-sm border border-slate-200 flex items-center justify-center transition-colors"
-              title="Load JSON"
-            >
-              <Upload className="w-5 h-5" />
-            </button>
-            <button
-              onClick={() => setIsSettingsOpen(true)}
-              className="w-9 h-9 bg-white hover:bg-slate-50 text-slate-700 rounded-lg shadow-sm border border-slate-200 flex items-center justify-center transition-colors"
-              title="Settings"
-            >
-              <Settings className="w-5 h-5" />
-            </button>
-            <a
-              href="https://github.com/VRER1997/fugue-chat-tree"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="w-9 h-9 bg-white hover:bg-slate-50 text-slate-700 hover:text-black rounded-lg shadow-sm border border-slate-200 flex items-center justify-center transition-colors"
-              title="View on GitHub"
-            >
-              <Github className="w-5 h-5" />
-            </a>
-            {/* Hidden File Input */}
-            <input
-              type="file"
-              ref={fileInputRef}
-              onChange={onRestore}
-              accept=".json"
-              className="hidden"
+        <CanvasContext.Provider value={canvasSettings}>
+          <ReactFlow
+            nodes={nodes}
+            edges={edges}
+            onNodesChange={onNodesChange}
+            onEdgesChange={onEdgesChange}
+            onConnect={onConnect}
+            nodeTypes={nodeTypes}
+            fitView
+            minZoom={0.1}
+            maxZoom={1.5}
+            deleteKeyCode={['Backspace', 'Delete']}
+            defaultEdgeOptions={{
+              type: 'smoothstep',
+              animated: true,
+              style: { stroke: '#cbd5e1', strokeWidth: 2 },
+              markerEnd: {
+                type: MarkerType.ArrowClosed,
+                color: '#cbd5e1',
+              },
+            }}
+          >
+            <Background
+              variant={BackgroundVariant.Dots}
+              gap={20}
+              size={1}
+              color="#cbd5e1"
             />
-          </div>
+            <Controls className="bg-white shadow-lg border border-slate-200 rounded-lg overflow-hidden text-slate-600" />
+
+            {/* Create Node Buttons */}
+            <div className="absolute top-4 left-4 z-50 flex gap-2">
+              <button
+                onClick={handleAddChatNode}
+                className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white px-3 py-2 rounded-lg font-medium shadow-sm transition-all duration-200 hover:shadow-lg hover:-translate-y-0.5 active:translate-y-0"
+              >
+                <div className="flex items-center justify-center bg-white/20 p-1 rounded">
+                  <MessageSquare className="w-4 h-4" />
+                </div>
+                <span>New Chat</span>
+              </button>
+              <button
+                onClick={handleAddResearchNode}
+                className="flex items-center gap-2 bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 text-white px-3 py-2 rounded-lg font-medium shadow-sm transition-all duration-200 hover:shadow-lg hover:-translate-y-0.5 active:translate-y-0"
+              >
+                <div className="flex items-center justify-center bg-white/20 p-1 rounded">
+                  <BookOpenIcon className="w-4 h-4" />
+                </div>
+                <span>New Research</span>
+              </button>
+              <button
+                onClick={handleAddNoteNode}
+                className="flex items-center gap-2 bg-gradient-to-r from-amber-600 to-amber-700 hover:from-amber-700 hover:to-amber-800 text-white px-3 py-2 rounded-lg font-medium shadow-sm transition-all duration-200 hover:shadow-lg hover:-translate-y-0.5 active:translate-y-0"
+              >
+                <div className="flex items-center justify-center bg-white/20 p-1 rounded">
+                  <FileText className="w-4 h-4" />
+                </div>
+                <span>New Note</span>
+              </button>
+            </div>
 
-        </ReactFlow>
+            {/* Action Buttons */}
+            <div className="absolute top-4 left-4 mt-14 z-50 flex gap-2">
+              <button
+                onClick={onClear}
+                className="w-9 h-9 bg-white hover:bg-red-50 text-slate-700 hover:text-red-600 rounded-lg shadow-sm border border-slate-200 flex items-center justify-center transition-colors"
+                title="Clear Canvas"
+              >
+                <RotateCcw className="w-5 h-5" />
+              </button>
+              <button
+                onClick={onSave}
+                className="w-9 h-9 bg-white hover:bg-slate-50 text-slate-700 rounded-lg shadow-sm border border-slate-200 flex items-center justify-center transition-colors"
+                title="Save JSON"
+              >
+                <Download className="w-5 h-5" />
+              </button>
+              <button
+                onClick={triggerFileUpload}
+                className="w-9 h-9 bg-white hover:bg-slate-50 text-slate-700 rounded-lg shadow-sm border border-slate-200 flex items-center justify-center transition-colors"
+                title="Load JSON"
+              >
+                <Upload className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="w-9 h-9 bg-white hover:bg-slate-50 text-slate-700 rounded-lg shadow-sm border border-slate-200 flex items-center justify-center transition-colors"
+                title="Settings"
+              >
+                <Settings className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => {
+                  setIsInspectorOpen(!isInspectorOpen);
+                  setIsDocumentsOpen(false);
+                }}
+                className={`w-9 h-9 rounded-lg shadow-sm border flex items-center justify-center transition-colors ${isInspectorOpen
+                  ? 'bg-blue-50 text-blue-600 border-blue-200'
+                  : 'bg-white hover:bg-slate-50 text-slate-700 border-slate-200'
+                  }`}
+                title="Inspect the request of the selected node"
+              >
+                <ScanSearch className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => {
+                  setIsDocumentsOpen(!isDocumentsOpen);
+                  setIsInspectorOpen(false);
+                }}
+                className={`w-9 h-9 rounded-lg shadow-sm border flex items-center justify-center transition-colors ${isDocumentsOpen
+                  ? 'bg-blue-50 text-blue-600 border-blue-200'
+                  : 'bg-white hover:bg-slate-50 text-slate-700 border-slate-200'
+                  }`}
+                title="Documents attached to this canvas"
+              >
+                <Paperclip className="w-5 h-5" />
+              </button>
+              <a
+                href="https://github.com/VRER1997/fugue-chat-tree"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="w-9 h-9 bg-white hover:bg-slate-50 text-slate-700 hover:text-black rounded-lg shadow-sm border border-slate-200 flex items-center justify-center transition-colors"
+                title="View on GitHub"
+              >
+                <Github className="w-5 h-5" />
+              </a>
+              {/* Hidden File Input */}
+              <input
+                type="file"
+                ref={fileInputRef}
+                onChange={onRestore}
+                accept=".json"
+                className="hidden"
+              />
+            </div>
+
+          </ReactFlow>
+        </CanvasContext.Provider>
 
         {/* Modern Chat Tree Logo */}
         <div className="absolute top-4 right-4 z-50">
@@ -978,9 +1117,27 @@ const Flow = () => {
         </div>
 
 
+        <InspectorPanel
+          isOpen={isInspectorOpen}
+          onClose={() => setIsInspectorOpen(false)}
+          node={nodes.find(n => n.selected)}
+          nodes={nodes}
+          edges={edges}
+          canvas={canvasSettings}
+        />
+
+        <DocumentsPanel
+          isOpen={isDocumentsOpen}
+          onClose={() => setIsDocumentsOpen(false)}
+          canvasId={activeCanvasId}
+        />
+
         <SettingsModal
           isOpen={isSettingsOpen}
           onClose={() => setIsSettingsOpen(false)}
+          canvasPresetId={activeCanvas?.promptPresetId}
+          onCanvasPresetChange={handleSetCanvasPreset}
+          onPricesChange={() => setPriceVersion(version => version + 1)}
         />
       </div >
     </div >
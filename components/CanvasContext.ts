@@ -0,0 +1,10 @@
+import { createContext } from 'react';
+
+// Settings of the canvas being shown that nodes need when building requests
+export interface CanvasSettings {
+    id?: string;
+    title: string;
+    promptPresetId?: string; // Default prompt preset for nodes without their own
+}
+
+export const CanvasContext = createContext<CanvasSettings>({ title: '' });
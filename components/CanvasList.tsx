@@ -1,6 +1,7 @@
 import React from 'react';
 import { ChevronLeft, ChevronRight, Trash2, FileText, Plus } from 'lucide-react';
 import { Canvas } from '../types';
+import { describeUsage, getNodeUsage, loadPrices, sumUsage } from '../services/usage';
 
 interface CanvasListProps {
     canvases: Canvas[];
@@ -84,6 +85,13 @@ export const CanvasList: React.FC<CanvasListProps> = ({
         }
     };
 
+    // Everything spent on a canvas: all node calls plus canvas-level ones like title generation
+    const prices = loadPrices();
+    const canvasUsage = new Map(canvases.map(canvas => {
+        const entries = [...canvas.nodes.flatMap(node => getNodeUsage(node.data)), ...(canvas.usage || [])];
+        return [canvas.id, entries.length > 0 ? describeUsage(sumUsage(entries, prices)) : null] as const;
+    }));
+
     // Auto-focus input when editing starts
     React.useEffect(() => {
         if (editingCanvasId && inputRef.current) {
@@ -196,6 +204,11 @@ export const CanvasList: React.FC<CanvasListProps> = ({
                                             </p>
                                             <p className="text-xs text-slate-400 mt-0.5">
                                                 {canvas.nodes.length} node{canvas.nodes.length !== 1 ? 's' : ''}
+                                                {canvasUsage.get(canvas.id) && (
+                                                    <span title={canvasUsage.get(canvas.id)!.details}>
+                                                        {' · '}{canvasUsage.get(canvas.id)!.label}
+                                                    </span>
+                                                )}
                                             </p>
                                         </div>
 
@@ -1,27 +1,72 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useContext, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Handle, Position, NodeProps, useReactFlow } from '@xyflow/react';
-import { MessageSquareQuote, Send, Sparkles, Trash2, ChevronsDown, ChevronsUp, GitFork, Globe, Brain } from 'lucide-react';
-import OpenAI from 'openai';
+import { Handle, Position, NodeProps, useReactFlow, useNodeConnections, useNodesData, useStore } from '@xyflow/react';
+import { MessageSquareQuote, Send, Sparkles, Trash2, ChevronsDown, ChevronsUp, GitFork, Globe, Brain, Cpu, Check, Square, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Layers, UserCog, GitMerge, Wrench } from 'lucide-react';
 import remarkMath from 'remark-math';
 import remarkGfm from 'remark-gfm';
 import rehypeKatex from 'rehype-katex';
 import { visit } from 'unist-util-visit';
 import 'katex/dist/katex.min.css';
-import { ChatNodeData, ResearchNodeData } from '../types';
+import { ChatNodeData, ReasoningMode, ResponseVersion, Source, TokenUsage, ToolCallRecord } from '../types';
+import { getCapabilities, LLMError } from '../services/llm';
+import { ModelProfile, getProfile, loadProfiles } from '../services/profiles';
+import { describeUsage, formatTokens, sumUsage } from '../services/usage';
+import { CONTEXT_STRATEGIES, ContextPlan, TurnStatus, collectAncestors, mergeParents, resolveContext } from '../services/context';
+import { buildChatMessages, prepareChatRequest } from '../services/chatRequest';
+import { ChatTool, executeToolCall, listOptionalTools } from '../services/tools';
+import { SearchResult } from '../services/search';
+import { runAgentLoop } from '../services/agent';
+import { createSourcePool, isLocalSource, sourceHostname } from '../services/sources';
+import { PromptPreset, loadPresets, resolvePreset } from '../services/prompts';
+import { CanvasContext } from './CanvasContext';
+import { ToolCallList } from './ToolCallList';
+
+// Nodes saved before response history existed only have a single aiResponse
+const getResponseVersions = (data: ChatNodeData): ResponseVersion[] => {
+  if (data.responses && data.responses.length > 0) return data.responses;
+  if (!data.aiResponse) return [];
+  return [{ text: data.aiResponse, reasoning: data.reasoning, modelName: data.modelName, stopped: data.stopped, highlights: data.highlights }];
+};
+
+const TURN_STATUS_STYLES: Record<TurnStatus, { label: string; className: string }> = {
+  kept: { label: 'Full', className: 'bg-slate-100 text-slate-500' },
+  quoted: { label: 'Quote', className: 'bg-blue-50 text-blue-600' },
+  summarized: { label: 'Summary', className: 'bg-purple-50 text-purple-600' },
+  dropped: { label: 'Dropped', className: 'bg-red-50 text-red-500' },
+  truncated: { label: 'Cut', className: 'bg-amber-50 text-amber-600' }
+};
+
+// Merge parents are labelled A, B, C... in the order they were connected
+const branchLetter = (index: number) => String.fromCharCode(65 + index);
 
 export const ChatNode = ({ id, data, isConnectable, selected }: NodeProps<ChatNodeData>) => {
-  const { deleteElements, updateNodeData, getNodes, getEdges } = useReactFlow();
+  const { deleteElements, updateNodeData, getNode, getNodes, getEdges } = useReactFlow();
+  const canvas = useContext(CanvasContext);
 
   // Initialize state from data if available, to persist across re-renders/mounts
   const [inputText, setInputText] = useState((data.inputText as string) || '');
   const [response, setResponse] = useState<string | null>((data.aiResponse as string) || null);
+  const [reasoning, setReasoning] = useState((data.reasoning as string) || '');
+  const [isThinkingOpen, setIsThinkingOpen] = useState(false);
+  const [toolCalls, setToolCalls] = useState<ToolCallRecord[]>((data.toolCalls as ToolCallRecord[]) || []);
+  const [sources, setSources] = useState<Source[]>((data.sources as Source[]) || []);
+  const [highlightedSourceId, setHighlightedSourceId] = useState<string | null>(null);
 
   const [isGenerating, setIsGenerating] = useState(false);
   const [isResponseCollapsed, setIsResponseCollapsed] = useState(false);
   const [isSearchEnabled, setIsSearchEnabled] = useState(data.isSearchEnabled || false);
-  const [reasoningMode, setReasoningMode] = useState<NonNullable<ChatNodeData['reasoningMode']>>((data.reasoningMode as any) || 'off');
+  const [enabledTools, setEnabledTools] = useState<string[]>((data.enabledTools as string[]) || []);
+  const [showToolsMenu, setShowToolsMenu] = useState(false);
+  const [availableTools, setAvailableTools] = useState<ChatTool[]>([]);
+  const [reasoningMode, setReasoningMode] = useState<ReasoningMode>((data.reasoningMode as any) || 'off');
   const [showReasoningMenu, setShowReasoningMenu] = useState(false);
+  const [profileId, setProfileId] = useState<string | undefined>(data.profileId as string | undefined);
+  const [showModelMenu, setShowModelMenu] = useState(false);
+  const [availableProfiles, setAvailableProfiles] = useState<ModelProfile[]>([]);
+  const [promptPresetId, setPromptPresetId] = useState<string | undefined>(data.promptPresetId as string | undefined);
+  const [showPresetMenu, setShowPresetMenu] = useState(false);
+  const [availablePresets, setAvailablePresets] = useState<PromptPreset[]>([]);
+  const [contextPreview, setContextPreview] = useState<ContextPlan | null>(null);
 
   // Selection State
   const [showQuoteBtn, setShowQuoteBtn] = useState(false);
@@ -31,6 +76,13 @@ export const ChatNode = ({ id, data, isConnectable, selected }: NodeProps<ChatNo
   const nodeRef = useRef<HTMLDivElement>(null);
   const reasoningMenuRef = useRef<HTMLDivElement>(null);
   const reasoningToggleRef = useRef<HTMLButtonElement>(null);
+  const modelMenuRef = useRef<HTMLDivElement>(null);
+  const modelToggleRef = useRef<HTMLButtonElement>(null);
+  const presetMenuRef = useRef<HTMLDivElement>(null);
+  const presetToggleRef = useRef<HTMLButtonElement>(null);
+  const toolsMenuRef = useRef<HTMLDivElement>(null);
+  const toolsToggleRef = useRef<HTMLButtonElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Resizable functionality
   const [nodeSize, setNodeSize] = useState({
@@ -75,6 +127,16 @@ export const ChatNode = ({ id, data, isConnectable, selected }: NodeProps<ChatNo
     }
   }, [data.reasoningMode]);
 
+  useEffect(() => {
+    if (data.profileId !== undefined) {
+      setProfileId(prev => prev !== data.profileId ? (data.profileId as string) : prev);
+    }
+  }, [data.profileId]);
+
+  useEffect(() => {
+    setPromptPresetId(data.promptPresetId as string | undefined);
+  }, [data.promptPresetId]);
+
   useEffect(() => {
     if (data.inputText !== undefined) {
       setInputText(prev => prev !== data.inputText ? (data.inputText as string) : prev);
@@ -87,7 +149,19 @@ export const ChatNode = ({ id, data, isConnectable, selected }: NodeProps<ChatNo
     }
   }, [data.aiResponse]);
 
-  // Handle click outside reasoning menu
+  useEffect(() => {
+    setReasoning((data.reasoning as string) || '');
+  }, [data.reasoning]);
+
+  useEffect(() => {
+    setToolCalls((data.toolCalls as ToolCallRecord[]) || []);
+  }, [data.toolCalls]);
+
+  useEffect(() => {
+    setSources((data.sources as Source[]) || []);
+  }, [data.sources]);
+
+  // Handle click outside reasoning / model menus
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (
@@ -99,314 +173,314 @@ export const ChatNode = ({ id, data, isConnectable, selected }: NodeProps<ChatNo
       ) {
         setShowReasoningMenu(false);
       }
+      if (
+        showModelMenu &&
+        modelMenuRef.current &&
+        !modelMenuRef.current.contains(event.target as Node) &&
+        modelToggleRef.current &&
+        !modelToggleRef.current.contains(event.target as Node)
+      ) {
+        setShowModelMenu(false);
+      }
+      if (
+        showPresetMenu &&
+        presetMenuRef.current &&
+        !presetMenuRef.current.contains(event.target as Node) &&
+        presetToggleRef.current &&
+        !presetToggleRef.current.contains(event.target as Node)
+      ) {
+        setShowPresetMenu(false);
+      }
+      if (
+        showToolsMenu &&
+        toolsMenuRef.current &&
+        !toolsMenuRef.current.contains(event.target as Node) &&
+        toolsToggleRef.current &&
+        !toolsToggleRef.current.contains(event.target as Node)
+      ) {
+        setShowToolsMenu(false);
+      }
     };
 
     document.addEventListener('mousedown', handleClickOutside);
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [showReasoningMenu]);
+  }, [showReasoningMenu, showModelMenu, showPresetMenu, showToolsMenu]);
+
+  const activeProfile = getProfile(profileId);
+  const capabilities = getCapabilities(profileId);
+  // Local models may not support function calling or provider-side search at all
+  const isSearchAvailable = capabilities.tools || capabilities.nativeSearch;
+
+  const handleToggleModelMenu = () => {
+    if (!showModelMenu) {
+      // Reload on open so edits made in Settings show up without remounting the node
+      setAvailableProfiles(loadProfiles());
+    }
+    setShowModelMenu(!showModelMenu);
+  };
+
+  const handleSelectProfile = (profile: ModelProfile) => {
+    setProfileId(profile.id);
+    setReasoningMode(profile.reasoningMode);
+    setShowModelMenu(false);
+    updateNodeData(id, { profileId: profile.id, reasoningMode: profile.reasoningMode });
+  };
+
+  const activePreset = resolvePreset(promptPresetId, canvas.promptPresetId);
+
+  // A node with several parents builds its context from all of their chains
+  const incomingConnections = useNodeConnections({ handleType: 'target' });
+  // Walked again when a parent's data or the edges change, not on every token this node streams
+  const parentsData = useNodesData(incomingConnections.map(connection => connection.source));
+  const edgeStructure = useStore(state => state.edges.map(edge => `${edge.source}>${edge.target}`).join('|'));
+  const merged = useMemo(() => {
+    if (incomingConnections.length <= 1) return [];
+    const nodes = getNodes();
+    const edges = getEdges();
+    return mergeParents(id, nodes, edges, collectAncestors(id, nodes, edges, data.quoteVersion as number | undefined));
+  }, [id, incomingConnections, parentsData, edgeStructure, data.quoteVersion, getNodes, getEdges]);
+  const mergedLetters = (branches: string[] = []) =>
+    branches.map(branchId => branchLetter(merged.findIndex(parent => parent.nodeId === branchId))).join('+');
+
+  const handleTogglePresetMenu = () => {
+    if (!showPresetMenu) {
+      setAvailablePresets(loadPresets());
+    }
+    setShowPresetMenu(!showPresetMenu);
+  };
+
+  // undefined clears the override so the canvas default applies again
+  const handleSelectPreset = (presetId: string | undefined) => {
+    setPromptPresetId(presetId);
+    setShowPresetMenu(false);
+    updateNodeData(id, { promptPresetId: presetId });
+  };
+
+  const handleToggleToolsMenu = () => {
+    if (!showToolsMenu) {
+      setAvailableTools(listOptionalTools());
+    }
+    setShowToolsMenu(!showToolsMenu);
+  };
+
+  // The menu stays open so several tools can be switched in one go
+  const handleToggleTool = (name: string) => {
+    const next = enabledTools.includes(name)
+      ? enabledTools.filter(tool => tool !== name)
+      : [...enabledTools, name];
+    setEnabledTools(next);
+    updateNodeData(id, { enabledTools: next });
+  };
+
+  // What the next request is built from; the node data carries the rest (quote, quoted version)
+  const currentTurn = () => ({
+    nodeId: id,
+    inputText,
+    quote: data.quote as string | undefined,
+    quoteVersion: data.quoteVersion as number | undefined,
+    profileId,
+    reasoningMode,
+    isSearchEnabled,
+    enabledTools,
+    promptPresetId,
+    canvasPresetId: canvas.promptPresetId,
+    canvasTitle: canvas.title,
+    inheritedSources: data.inheritedSources as Source[] | undefined
+  });
+
+  // Show what would be sent for the current question without calling the model
+  const handleToggleContextPreview = () => {
+    if (contextPreview) {
+      setContextPreview(null);
+      return;
+    }
+    setContextPreview(prepareChatRequest(currentTurn(), getNodes(), getEdges()).plan);
+  };
 
   // Real AI generation
   const handleGenerate = async () => {
     if (!inputText.trim()) return;
 
+    setContextPreview(null);
     setIsGenerating(true);
     setResponse(""); // Clear previous
+    setReasoning("");
+    setToolCalls([]);
+    setSources([]);
     setIsResponseCollapsed(false); // Auto expand on new generation
     setShowQuoteBtn(false);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+
+    // Answer text streamed so far, kept if the user stops generation midway
+    let streamedText = "";
+    let streamedReasoning = "";
+    let streamedToolCalls: ToolCallRecord[] = [];
+    let answeredBy: string | undefined;
+    const showText = (text: string) => {
+      streamedText = text;
+      setResponse(text);
+    };
+    const showReasoning = (text: string) => {
+      streamedReasoning = text;
+      setReasoning(text);
+    };
+    const showToolCalls = (calls: ToolCallRecord[]) => {
+      streamedToolCalls = calls;
+      setToolCalls(calls);
+    };
+    // Search results get numbers after the sources this branch inherited
+    const sourcePool = createSourcePool(data.inheritedSources as Source[] | undefined);
+    const addSources = (results: SearchResult[]) => {
+      const added = sourcePool.add(results);
+      setSources(sourcePool.forAnswer(streamedText));
+      return added;
+    };
+
     // Sync input text to node data for future context
     updateNodeData(id, {
       inputText: inputText,
       reasoningMode: reasoningMode,
-      isSearchEnabled: isSearchEnabled
+      isSearchEnabled: isSearchEnabled,
+      enabledTools: enabledTools,
+      profileId: profileId
     });
 
-    try {
-      const storedKey = localStorage.getItem('gemini_api_key');
-      const apiKey = storedKey || import.meta.env.VITE_GEMINI_API_KEY;
-
-      const storedModel = localStorage.getItem('gemini_model_name');
-      const modelName = storedModel || import.meta.env.VITE_GEMINI_MODEL_NAME;
-
-      const storedUrl = localStorage.getItem('gemini_api_url');
-      const apiUrl = storedUrl || import.meta.env.VITE_GEMINI_API_URL;
+    // Every call is recorded, including regenerations and calls whose answer was discarded
+    const recordUsage = (usage?: TokenUsage) => {
+      if (!usage) return;
+      const latest = (getNode(id)?.data || data) as ChatNodeData;
+      updateNodeData(id, { usage: [...(latest.usage || []), usage] });
+    };
 
-      // Initialize OpenAI Client
-      const openai = new OpenAI({
-        apiKey: apiKey,
-        baseURL: apiUrl,
-        dangerouslyAllowBrowser: true
+    // Keep the previous answers and make the new one the active version
+    const saveVersion = (text: string, stopped: boolean) => {
+      const latest = (getNode(id)?.data || data) as ChatNodeData;
+      const answerSources = sourcePool.forAnswer(text);
+      setSources(answerSources);
+      const versions = [
+        ...getResponseVersions(latest),
+        {
+          text,
+          reasoning: streamedReasoning || undefined,
+          modelName: answeredBy,
+          createdAt: Date.now(),
+          stopped,
+          toolCalls: streamedToolCalls.length > 0 ? streamedToolCalls : undefined,
+          sources: answerSources.length > 0 ? answerSources : undefined
+        }
+      ];
+      updateNodeData(id, {
+        responses: versions,
+        activeResponseIndex: versions.length - 1,
+        aiResponse: text,
+        reasoning: streamedReasoning || undefined,
+        modelName: answeredBy,
+        stopped,
+        highlights: [],
+        toolCalls: streamedToolCalls.length > 0 ? streamedToolCalls : undefined,
+        sources: answerSources.length > 0 ? answerSources : undefined
       });
+    };
 
-      // 1. Traverse ancestors to build context history
-      // We need to typecase broadly to support both node types for traversal
-      const nodes = getNodes();
-      const edges = getEdges();
-      const ancestorChain: (ChatNodeData | ResearchNodeData)[] = [];
-      let currentId = id;
-
-      while (true) {
-        const parentEdge = edges.find(e => e.target === currentId);
-        if (!parentEdge) break;
-        const parentNode = nodes.find(n => n.id === parentEdge.source);
-        if (!parentNode) break;
-
-        // Add to beginning of list to maintain chronological order later via unshift
-        ancestorChain.unshift(parentNode.data as (ChatNodeData | ResearchNodeData));
-        currentId = parentNode.id;
+    try {
+      // 1. System prompt, current turn and ancestor history planned against the context window
+      const prepared = prepareChatRequest(currentTurn(), getNodes(), getEdges());
+      if (prepared.plan.summary && !prepared.plan.summary.text) {
+        setResponse("*Summarizing earlier conversation...*");
       }
 
-      // 2. Format history for OpenAI
-      const historyMessages: any[] = ancestorChain.flatMap(node => {
-        const msgs = [];
-
-        // Check if it's a Research Node (has 'query' and 'answer' instead of 'inputText' and 'aiResponse')
-        if ('query' in node && 'answer' in node) {
-          const researchNode = node as ResearchNodeData;
-          // Research Query -> User
-          if (researchNode.query) {
-            msgs.push({ role: 'user', content: researchNode.query });
-          }
-          // Research Answer -> Assistant
-          if (researchNode.answer) {
-            msgs.push({ role: 'assistant', content: researchNode.answer });
-          }
-        } else {
-          // Chat Node
-          const chatNode = node as ChatNodeData;
-          // User turn
-          if (chatNode.inputText) {
-            let text = chatNode.inputText as string;
-            if (chatNode.quote) {
-              text = `Regarding the text "${chatNode.quote}":\n${text}`;
-            }
-            msgs.push({ role: 'user', content: text });
-          }
-
-          // Assistant turn
-          if (chatNode.aiResponse) {
-            msgs.push({ role: 'assistant', content: chatNode.aiResponse as string });
-          }
-        }
-        return msgs;
+      // 2. Generate the summary of older turns if the plan needs one
+      const historyMessages = await resolveContext(prepared.plan, {
+        profileId,
+        signal,
+        onUsage: recordUsage,
+        onSummary: (nodeId, summary) => updateNodeData(nodeId, { contextSummary: summary })
       });
+      const messages = buildChatMessages(prepared, historyMessages);
+
+      // 3. Stream the answer, running tool calls round by round until the model is done
+      const result = await runAgentLoop(
+        { ...prepared.request, messages },
+        (call, toolSignal) => executeToolCall(call, { signal: toolSignal, nodeId: id, nodes: getNodes(), canvasId: canvas.id, addSources }),
+        {
+          onText: showText,
+          onReasoning: showReasoning,
+          onToolCalls: showToolCalls,
+          onUsage: recordUsage
+        },
+        { profileId, signal }
+      );
+      answeredBy = result.model;
 
-      // 3. Current turn
-      const currentPromptText = data.quote
-        ? `Regarding the text "${data.quote}":\n${inputText}`
-        : inputText;
-
-      let systemPrompt = "You are an expert researcher. Guidelines:\nBe Direct: Start the answer immediately. No filler phrases like 'Here is the answer' or 'That's a great question'.\nHigh Density: Use bullet points and bold text for key concepts.\nNo Repetition: Do not repeat the user's question or the quoted context.\nConcise: Keep the response under 200 words unless explicitly asked for a long explanation.\nContext Aware: Since the user quoted specific text, focus ONLY on that specific part, do not explain the whole concept again.\nLanguage: Respond in the same language as the user's question.";
-
-      if (isSearchEnabled) {
-        systemPrompt += `\n\nCRITICAL: You MUST perform an online internet search to answer this request with the latest, real-time information. Do not rely solely on your internal training data.\nCurrent Date and Time: ${new Date().toLocaleString()}`;
-      }
-
-      const messages = [
-        { role: 'system', content: systemPrompt },
-        ...historyMessages,
-        { role: 'user', content: currentPromptText }
-      ];
+      // Sync response to node data
+      saveVersion(result.text, false);
 
-      // Prepare completion params
-      const completionParams: any = {
-        model: modelName,
-        messages: messages,
-        stream: true,
-      };
-
-      // Add Reasoning Parameters (Simulated via extra_body for OpenRouter/DeepSeek/etc)
-      if (reasoningMode !== 'off') {
-        const budgetMap = {
-          'light': 1024,
-          'medium': 4096,
-          'heavy': 16384,
-          'auto': 0 // 0 might mean auto or let provider decide
-        };
-
-        const budget = budgetMap[reasoningMode];
-
-        if (!completionParams.extra_body) completionParams.extra_body = {};
-
-        if (reasoningMode === 'auto') {
-          completionParams.extra_body = {
-            ...completionParams.extra_body,
-            include_reasoning: true
-          };
+    } catch (error) {
+      if (signal.aborted) {
+        // Stopped by the user: keep whatever was streamed so far
+        if (streamedText) {
+          setResponse(streamedText);
+          saveVersion(streamedText, true);
         } else {
-          completionParams.extra_body = {
-            ...completionParams.extra_body,
-            top_k: 50, // Example param
-            thinking: {
-              budget: budget,
-              type: "enabled"
-            },
-            include_reasoning: true
-          };
+          const latest = getNode(id)?.data as ChatNodeData | undefined;
+          setResponse(latest?.aiResponse || null);
+          setReasoning(latest?.reasoning || '');
+          setToolCalls(latest?.toolCalls || []);
+          setSources(latest?.sources || []);
         }
+      } else {
+        console.error("AI Error:", error);
+        const detail = error instanceof LLMError ? `\n\n${error.message}` : '';
+        setResponse(`Error generating response. Please check your API key and configuration.${detail}`);
       }
+    } finally {
+      abortControllerRef.current = null;
+      setIsGenerating(false);
+    }
+  };
 
-      // Add Gemini-specific search tool if search is enabled
-      if (isSearchEnabled) {
-        completionParams.tools = [{
-          type: 'function',
-          function: {
-            name: 'web_search',
-            description: 'Search the internet using Bing Search',
-            parameters: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'The search query to find the latest information'
-                }
-              },
-              required: ['query']
-            }
-          }
-        }];
-        completionParams.tool_choice = 'auto';
-      }
-
-      const stream = await openai.chat.completions.create(completionParams) as AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>;
-
-      let fullText = "";
-      let toolCallArgs = "";
-      let toolCallName = "";
-      let toolCallId = "";
-      let isToolCall = false;
-
-      for await (const chunk of stream) {
-        // Handle Content
-        const content = chunk.choices[0]?.delta?.content || "";
-        if (content) {
-          fullText += content;
-          setResponse(fullText);
-        }
-
-        // Handle Tool Calls (Accumulate args)
-        const toolCalls = chunk.choices[0]?.delta?.tool_calls;
-        if (toolCalls && toolCalls.length > 0) {
-          isToolCall = true;
-          const toolCall = toolCalls[0];
-          if (toolCall.id) toolCallId = toolCall.id;
-          if (toolCall.function?.name) toolCallName = toolCall.function.name;
-          if (toolCall.function?.arguments) toolCallArgs += toolCall.function.arguments;
-        }
-
-        // Handle Finish (Execute Tool if needed)
-        if (chunk.choices[0]?.finish_reason === 'tool_calls' || (isToolCall && chunk.choices[0]?.finish_reason === 'stop')) {
-          setResponse(fullText + "\n\n*Searching online...*");
-
-          // Execute Client-Side Search
-          console.log(`Executing Tool: ${toolCallName} with args: ${toolCallArgs}`);
-
-          let searchResult = "Unconfigured Search Provider.";
-          try {
-            const args = JSON.parse(toolCallArgs);
-            const query = args.query || args.q || "latest info";
-            const serperKey = localStorage.getItem('serper_api_key') || import.meta.env.VITE_SERPER_API_KEY;
-
-            if (serperKey) {
-              setResponse(fullText + `\n\n*Searching Google for "${query}"...*`);
-              // Call Serper.dev API
-              const myHeaders = new Headers();
-              myHeaders.append("X-API-KEY", serperKey);
-              myHeaders.append("Content-Type", "application/json");
-
-              const raw = JSON.stringify({
-                "q": query
-              });
-
-              const requestOptions: any = {
-                method: 'POST',
-                headers: myHeaders,
-                body: raw,
-                redirect: 'follow'
-              };
-
-              const response = await fetch("https://google.serper.dev/search", requestOptions);
-              const result = await response.json();
-
-              // Format results for AI
-              if (result.organic) {
-                searchResult = `Search Results for "${query}":\n` +
-                  result.organic.slice(0, 5).map((item: any, index: number) =>
-                    `${index + 1}. [${item.title}](${item.link}): ${item.snippet}`
-                  ).join('\n');
-              } else {
-                searchResult = `No results found for "${query}".`;
-              }
-
-            } else {
-              // Fallback to Mock if no key
-              searchResult = `[SYSTEM MESSAGE]: This is a simulated search result. Real search is disabled because no 'Serper API Key' was found in settings.
-Current System Time: ${new Date().toLocaleString()}
-User Query: "${query}"
-
-INSTRUCTIONS:
-1. Inform the user that they need to add a "Serper API Key" in Settings to enable real internet search.
-2. Answering based on your internal knowledge only.`;
-            }
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
 
-          } catch (e) {
-            console.error("Tool Execution Error", e);
-            searchResult = `Error executing search: ${e}`;
-          }
-
-          // Append Tool Result to History
-          const newMessages = [
-            ...messages,
-            {
-              role: 'assistant',
-              content: null,
-              tool_calls: [{
-                id: toolCallId || "call_" + Math.random().toString(36).substr(2, 9),
-                type: 'function',
-                function: {
-                  name: toolCallName || "web_search",
-                  arguments: toolCallArgs
-                }
-              }]
-            },
-            {
-              role: 'tool',
-              tool_call_id: toolCallId || "call_" + Math.random().toString(36).substr(2, 9),
-              name: toolCallName || "bing_search",
-              content: searchResult
-            }
-          ];
-
-          // Second Call: Get Final Answer
-          const secondStream = await openai.chat.completions.create({
-            model: modelName,
-            messages: newMessages,
-            stream: true
-          }) as AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>;
-
-          for await (const chunk2 of secondStream) {
-            const content2 = chunk2.choices[0]?.delta?.content || "";
-            if (content2) {
-              fullText += content2;
-              setResponse(fullText);
-            }
-          }
-        }
-      }
+  const usageEntries = (data.usage as TokenUsage[] | undefined) || [];
+  const nodeUsage = usageEntries.length > 0 ? describeUsage(sumUsage(usageEntries)) : null;
 
-      // Sync response to node data
-      updateNodeData(id, { aiResponse: fullText });
+  const responseVersions = getResponseVersions(data as ChatNodeData);
+  const activeVersionIndex = (data.activeResponseIndex as number | undefined) ?? responseVersions.length - 1;
+  const activeVersion = responseVersions[activeVersionIndex];
 
-    } catch (error) {
-      console.error("AI Error:", error);
-      setResponse("Error generating response. Please check your API key and configuration.");
-    } finally {
-      setIsGenerating(false);
-    }
+  const handleSelectVersion = (index: number) => {
+    const version = responseVersions[index];
+    if (!version) return;
+    setResponse(version.text);
+    setReasoning(version.reasoning || '');
+    setToolCalls(version.toolCalls || []);
+    setSources(version.sources || []);
+    setShowQuoteBtn(false);
+    updateNodeData(id, {
+      responses: responseVersions,
+      activeResponseIndex: index,
+      aiResponse: version.text,
+      reasoning: version.reasoning,
+      modelName: version.modelName,
+      stopped: version.stopped,
+      highlights: version.highlights || [],
+      toolCalls: version.toolCalls,
+      sources: version.sources
+    });
   };
 
+  // Cancel any in-flight request when the node is removed
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   // Sync draft text on blur
   const handleBlur = () => {
     updateNodeData(id, { inputText: inputText });
@@ -516,9 +590,36 @@ INSTRUCTIONS:
         )}
       </div>
 
+      {/* Header: Answer Versions (after a regenerate) */}
+      {responseVersions.length > 1 && !isGenerating && (
+        <div
+          className="flex items-center gap-1 px-4 py-1.5 pr-28 border-b border-slate-100 text-[10px] text-slate-400 nodrag"
+          title={activeVersion?.createdAt ? `Generated ${new Date(activeVersion.createdAt).toLocaleString()}` : 'Response version'}
+        >
+          <span className="mr-1">Answer</span>
+          <button
+            onClick={() => handleSelectVersion(activeVersionIndex - 1)}
+            disabled={activeVersionIndex <= 0}
+            className="p-0.5 rounded hover:bg-slate-200 hover:text-slate-600 disabled:opacity-30 disabled:hover:bg-transparent"
+            title="Previous answer"
+          >
+            <ChevronLeft className="w-3 h-3" />
+          </button>
+          <span className="font-medium tabular-nums">{activeVersionIndex + 1}/{responseVersions.length}</span>
+          <button
+            onClick={() => handleSelectVersion(activeVersionIndex + 1)}
+            disabled={activeVersionIndex >= responseVersions.length - 1}
+            className="p-0.5 rounded hover:bg-slate-200 hover:text-slate-600 disabled:opacity-30 disabled:hover:bg-transparent"
+            title="Next answer"
+          >
+            <ChevronRight className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
       {/* Header: Quote Section (if exists) */}
       {data.quote && (
-        <div className="bg-slate-50 p-3 pr-24 border-b border-slate-100 flex gap-2 items-start text-xs text-slate-600 italic rounded-t-xl">
+        <div className={`bg-slate-50 p-3 pr-24 border-b border-slate-100 flex gap-2 items-start text-xs text-slate-600 italic ${responseVersions.length > 1 && !isGenerating ? '' : 'rounded-t-xl'}`}>
           <MessageSquareQuote className="w-4 h-4 text-slate-400 shrink-0 mt-0.5" />
           <div className="line-clamp-3">"{data.quote}"</div>
         </div>
@@ -526,6 +627,21 @@ INSTRUCTIONS:
 
       {/* Body: Input Section */}
       <div className="p-4 flex flex-col gap-3">
+        {merged.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5 text-[10px] text-slate-500">
+            <GitMerge className="w-3.5 h-3.5 text-indigo-500" />
+            <span className="font-medium text-slate-600">Merges {merged.length} branches</span>
+            {merged.map((parent, index) => (
+              <span
+                key={parent.nodeId}
+                className="px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600 max-w-[140px] truncate"
+                title={`${parent.label}\n${parent.turns} turn(s) of context from this branch`}
+              >
+                {branchLetter(index)} · {parent.label}
+              </span>
+            ))}
+          </div>
+        )}
         <textarea
           className="w-full resize-none bg-slate-50 border border-slate-200 rounded-lg p-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800 nodrag"
           rows={3}
@@ -554,6 +670,7 @@ INSTRUCTIONS:
                   onClick={() => {
                     setReasoningMode(mode);
                     setShowReasoningMenu(false);
+                    updateNodeData(id, { reasoningMode: mode });
                   }}
                   className={`flex items-center gap-1 px-1.5 py-1 text-[10px] rounded-md transition-colors text-left capitalize ${reasoningMode === mode
                     ? 'bg-blue-50 text-blue-600 font-medium'
@@ -569,14 +686,96 @@ INSTRUCTIONS:
             </div>
           )}
 
+          {/* Model Menu */}
+          {showModelMenu && (
+            <div
+              ref={modelMenuRef}
+              className="absolute bottom-12 left-0 bg-white border border-slate-200 shadow-xl rounded-lg p-0.5 flex flex-col w-48 z-50 animate-in fade-in zoom-in-95 duration-200"
+            >
+              {availableProfiles.map(profile => (
+                <button
+                  key={profile.id}
+                  onClick={() => handleSelectProfile(profile)}
+                  className={`flex items-center gap-1.5 px-1.5 py-1 text-[10px] rounded-md transition-colors text-left ${activeProfile.id === profile.id
+                    ? 'bg-blue-50 text-blue-600 font-medium'
+                    : 'text-slate-600 hover:bg-slate-50'
+                    }`}
+                >
+                  {activeProfile.id === profile.id ? <Check className="w-3 h-3 shrink-0" /> : <span className="w-3 h-3 shrink-0" />}
+                  <span className="truncate">{profile.name}</span>
+                  {profile.model && <span className="ml-auto text-slate-400 truncate max-w-[80px]">{profile.model}</span>}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <button
+            ref={modelToggleRef}
+            onClick={handleToggleModelMenu}
+            className={`p-2 rounded-lg transition-all duration-200 border nodrag flex items-center gap-1 ${profileId
+              ? 'bg-blue-50 text-blue-600 border-blue-200 shadow-sm'
+              : 'bg-slate-50 text-slate-400 border-slate-200 hover:bg-slate-100 hover:text-slate-600'
+              }`}
+            title={`Model: ${activeProfile.name}${activeProfile.model ? ` (${activeProfile.model})` : ''}`}
+          >
+            <Cpu className="w-4 h-4" />
+            {profileId && <span className="text-[10px] font-medium max-w-[64px] truncate">{activeProfile.name}</span>}
+          </button>
+
+          {/* Prompt Preset Menu */}
+          {showPresetMenu && (
+            <div
+              ref={presetMenuRef}
+              className="absolute bottom-12 left-0 bg-white border border-slate-200 shadow-xl rounded-lg p-0.5 flex flex-col w-48 z-50 animate-in fade-in zoom-in-95 duration-200"
+            >
+              <button
+                onClick={() => handleSelectPreset(undefined)}
+                className={`flex items-center gap-1.5 px-1.5 py-1 text-[10px] rounded-md transition-colors text-left ${!promptPresetId
+                  ? 'bg-blue-50 text-blue-600 font-medium'
+                  : 'text-slate-600 hover:bg-slate-50'
+                  }`}
+              >
+                {!promptPresetId ? <Check className="w-3 h-3 shrink-0" /> : <span className="w-3 h-3 shrink-0" />}
+                <span className="truncate">Canvas default</span>
+                <span className="ml-auto text-slate-400 truncate max-w-[80px]">{resolvePreset(undefined, canvas.promptPresetId).name}</span>
+              </button>
+              {availablePresets.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => handleSelectPreset(preset.id)}
+                  className={`flex items-center gap-1.5 px-1.5 py-1 text-[10px] rounded-md transition-colors text-left ${promptPresetId === preset.id
+                    ? 'bg-blue-50 text-blue-600 font-medium'
+                    : 'text-slate-600 hover:bg-slate-50'
+                    }`}
+                >
+                  {promptPresetId === preset.id ? <Check className="w-3 h-3 shrink-0" /> : <span className="w-3 h-3 shrink-0" />}
+                  <span className="truncate">{preset.name}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <button
+            ref={presetToggleRef}
+            onClick={handleTogglePresetMenu}
+            className={`p-2 rounded-lg transition-all duration-200 border nodrag ${promptPresetId
+              ? 'bg-blue-50 text-blue-600 border-blue-200 shadow-sm'
+              : 'bg-slate-50 text-slate-400 border-slate-200 hover:bg-slate-100 hover:text-slate-600'
+              }`}
+            title={`System prompt: ${activePreset.name}${promptPresetId ? '' : ' (canvas default)'}`}
+          >
+            <UserCog className="w-4 h-4" />
+          </button>
+
           <button
             ref={reasoningToggleRef}
             onClick={() => setShowReasoningMenu(!showReasoningMenu)}
-            className={`p-2 rounded-lg transition-all duration-200 border nodrag ${reasoningMode !== 'off'
+            disabled={!capabilities.reasoning}
+            className={`p-2 rounded-lg transition-all duration-200 border nodrag disabled:opacity-40 disabled:cursor-not-allowed ${reasoningMode !== 'off' && capabilities.reasoning
               ? 'bg-purple-50 text-purple-600 border-purple-200 shadow-sm'
               : 'bg-slate-50 text-slate-400 border-slate-200 hover:bg-slate-100 hover:text-slate-600'
               }`}
-            title="Model Reasoning / Thinking"
+            title={capabilities.reasoning ? "Model Reasoning / Thinking" : "Reasoning is not supported by this model profile"}
           >
             <Brain className="w-4 h-4" />
           </button>
@@ -587,35 +786,183 @@ INSTRUCTIONS:
               setIsSearchEnabled(newVal);
               updateNodeData(id, { isSearchEnabled: newVal });
             }}
-            className={`p-2 rounded-lg transition-all duration-200 border nodrag ${isSearchEnabled
+            disabled={!isSearchAvailable}
+            className={`p-2 rounded-lg transition-all duration-200 border nodrag disabled:opacity-40 disabled:cursor-not-allowed ${isSearchEnabled && isSearchAvailable
               ? 'bg-blue-50 text-blue-600 border-blue-200 shadow-sm'
               : 'bg-slate-50 text-slate-400 border-slate-200 hover:bg-slate-100 hover:text-slate-600'
               }`}
-            title={isSearchEnabled ? "Online Search Enabled" : "Enable Online Search"}
+            title={!isSearchAvailable ? "Online search is not supported by this model profile" : isSearchEnabled ? "Online Search Enabled" : "Enable Online Search"}
           >
-            <Globe className={`w-4 h-4 ${isSearchEnabled ? 'animate-pulse' : ''}`} />
+            <Globe className={`w-4 h-4 ${isSearchEnabled && isSearchAvailable ? 'animate-pulse' : ''}`} />
           </button>
+
+          {/* Tools Menu */}
+          {showToolsMenu && (
+            <div
+              ref={toolsMenuRef}
+              className="absolute bottom-12 left-0 bg-white border border-slate-200 shadow-xl rounded-lg p-0.5 flex flex-col w-56 max-h-72 overflow-y-auto custom-scrollbar nowheel z-50 animate-in fade-in zoom-in-95 duration-200"
+            >
+              {availableTools.map((tool, index) => (
+                <React.Fragment key={tool.definition.name}>
+                  {tool.group && tool.group !== availableTools[index - 1]?.group && (
+                    <div className="px-1.5 pt-1.5 pb-0.5 text-[9px] font-bold text-slate-400 uppercase tracking-wider truncate">{tool.group}</div>
+                  )}
+                  <button
+                    onClick={() => handleToggleTool(tool.definition.name)}
+                    className={`flex items-center gap-1.5 px-1.5 py-1 text-[10px] rounded-md transition-colors text-left ${enabledTools.includes(tool.definition.name)
+                      ? 'bg-blue-50 text-blue-600 font-medium'
+                      : 'text-slate-600 hover:bg-slate-50'
+                      }`}
+                    title={tool.definition.description}
+                  >
+                    {enabledTools.includes(tool.definition.name) ? <Check className="w-3 h-3 shrink-0" /> : <span className="w-3 h-3 shrink-0" />}
+                    <span className="truncate">{tool.label}</span>
+                    <span className="ml-auto text-slate-400 font-mono truncate max-w-[90px]">{tool.definition.name}</span>
+                  </button>
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+
           <button
-            onClick={handleGenerate}
-            disabled={!inputText.trim() || isGenerating}
-            className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-all ${inputText.trim() && !isGenerating
-              ? 'bg-blue-600 text-white hover:bg-blue-700 shadow-md'
-              : 'bg-slate-100 text-slate-400 cursor-not-allowed'
-              } nodrag`}
+            ref={toolsToggleRef}
+            onClick={handleToggleToolsMenu}
+            disabled={!capabilities.tools}
+            className={`p-2 rounded-lg transition-all duration-200 border nodrag flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed ${enabledTools.length > 0 && capabilities.tools
+              ? 'bg-amber-50 text-amber-600 border-amber-200 shadow-sm'
+              : 'bg-slate-50 text-slate-400 border-slate-200 hover:bg-slate-100 hover:text-slate-600'
+              }`}
+            title={!capabilities.tools ? "Tool calling is not supported by this model profile" : enabledTools.length > 0 ? `Tools: ${enabledTools.join(', ')}` : "Enable tools"}
           >
-            {isGenerating ? (
-              <Sparkles className="w-4 h-4 animate-spin" />
-            ) : (
-              <Send className="w-4 h-4 text-white/90" />
-            )}
-            {isGenerating ? 'Thinking...' : 'Generate Answer'}
+            <Wrench className="w-4 h-4" />
+            {enabledTools.length > 0 && capabilities.tools && <span className="text-[10px] font-medium">{enabledTools.length}</span>}
+          </button>
+
+          <button
+            onClick={handleToggleContextPreview}
+            disabled={isGenerating}
+            className={`p-2 rounded-lg transition-all duration-200 border nodrag disabled:opacity-40 disabled:cursor-not-allowed ${contextPreview
+              ? 'bg-blue-50 text-blue-600 border-blue-200 shadow-sm'
+              : 'bg-slate-50 text-slate-400 border-slate-200 hover:bg-slate-100 hover:text-slate-600'
+              }`}
+            title="Preview the context that will be sent"
+          >
+            <Layers className="w-4 h-4" />
           </button>
+          {isGenerating ? (
+            <button
+              onClick={handleStop}
+              className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-all bg-slate-100 text-slate-600 hover:bg-red-50 hover:text-red-600 border border-slate-200 nodrag group/stop"
+              title="Stop generating"
+            >
+              <Sparkles className="w-4 h-4 animate-spin group-hover/stop:hidden" />
+              <Square className="w-4 h-4 hidden group-hover/stop:block fill-current" />
+              <span className="group-hover/stop:hidden">Thinking...</span>
+              <span className="hidden group-hover/stop:inline">Stop</span>
+            </button>
+          ) : (
+            <button
+              onClick={handleGenerate}
+              disabled={!inputText.trim()}
+              className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-all ${inputText.trim()
+                ? 'bg-blue-600 text-white hover:bg-blue-700 shadow-md'
+                : 'bg-slate-100 text-slate-400 cursor-not-allowed'
+                } nodrag`}
+            >
+              <Send className="w-4 h-4 text-white/90" />
+              Generate Answer
+            </button>
+          )}
         </div>
+
+        {/* Context Preview */}
+        {contextPreview && (
+          <div className="border border-slate-200 rounded-lg bg-white text-[10px] text-slate-600 nodrag nowheel">
+            <div className="flex items-center justify-between px-3 py-1.5 border-b border-slate-100 bg-slate-50 rounded-t-lg">
+              <span className="font-medium text-slate-700">
+                {formatTokens(contextPreview.historyTokens + contextPreview.fixedTokens)} / {formatTokens(contextPreview.contextWindow)} tokens
+              </span>
+              <span className="text-slate-400 truncate ml-2" title={CONTEXT_STRATEGIES[contextPreview.strategy].description}>
+                {contextPreview.model} · {CONTEXT_STRATEGIES[contextPreview.strategy].label}
+              </span>
+            </div>
+            <div className="max-h-48 overflow-y-auto custom-scrollbar divide-y divide-slate-50">
+              {contextPreview.summary && (
+                <div className="flex items-center gap-2 px-3 py-1">
+                  <span className={`px-1.5 rounded ${TURN_STATUS_STYLES.summarized.className}`}>Summary</span>
+                  <span className="flex-1 truncate italic">
+                    {contextPreview.summary.turnCount} earlier turn{contextPreview.summary.turnCount !== 1 ? 's' : ''}
+                    {contextPreview.summary.text ? ' (cached)' : ' (generated on send)'}
+                  </span>
+                </div>
+              )}
+              {contextPreview.turns.length === 0 && (
+                <div className="px-3 py-1.5 text-slate-400">No ancestors, only this question is sent.</div>
+              )}
+              {contextPreview.turns.map(({ turn, status, tokens }) => (
+                <div key={turn.nodeId} className="flex items-center gap-2 px-3 py-1">
+                  <span className={`px-1.5 rounded shrink-0 ${TURN_STATUS_STYLES[status].className}`}>{TURN_STATUS_STYLES[status].label}</span>
+                  {merged.length > 0 && (
+                    <span className="px-1 rounded shrink-0 bg-indigo-50 text-indigo-500" title="Branches this turn comes from">{mergedLetters(turn.branches)}</span>
+                  )}
+                  <span className={`flex-1 truncate ${status === 'dropped' || status === 'summarized' ? 'line-through text-slate-400' : ''}`} title={turn.label}>
+                    {turn.label}
+                  </span>
+                  <span className="shrink-0 tabular-nums text-slate-400">{tokens > 0 ? formatTokens(tokens) : '–'}</span>
+                </div>
+              ))}
+            </div>
+            <div className="px-3 py-1.5 border-t border-slate-100 text-slate-400 rounded-b-lg">
+              System prompt, this question and room for the answer: {formatTokens(contextPreview.fixedTokens)}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Footer: Response Section */}
       {(response || isGenerating) && (
-        <div className="border-t border-slate-100 bg-slate-50 p-4 relative rounded-b-xl">
+        <div className={`border-t border-slate-100 bg-slate-50 p-4 relative ${sources.length > 0 ? '' : 'rounded-b-xl'}`}>
+          {(data.modelName || data.stopped || nodeUsage) && !isGenerating && (
+            <div className="flex items-center gap-2 mb-2 text-[10px] text-slate-400">
+              {data.modelName && (
+                <span className="flex items-center gap-1" title="Model that produced this answer">
+                  <Cpu className="w-3 h-3" />
+                  {data.modelName as string}
+                </span>
+              )}
+              {nodeUsage && (
+                <span title={`All calls for this node\n${nodeUsage.details}`}>
+                  {nodeUsage.label}
+                </span>
+              )}
+              {data.stopped && (
+                <span className="flex items-center gap-1 text-amber-600 bg-amber-50 px-1.5 py-0.5 rounded" title="Generation was stopped before the answer finished">
+                  <Square className="w-2.5 h-2.5 fill-current" />
+                  Stopped
+                </span>
+              )}
+            </div>
+          )}
+          <ToolCallList calls={toolCalls} isGenerating={isGenerating} />
+          {reasoning && (
+            <div className="mb-3 border border-slate-200 rounded-lg bg-white/60">
+              <button
+                onClick={() => setIsThinkingOpen(!isThinkingOpen)}
+                className="w-full flex items-center justify-between px-3 py-1.5 text-[10px] font-medium text-slate-500 hover:text-slate-800 transition-colors nodrag"
+              >
+                <span className="flex items-center gap-1.5">
+                  <Brain className={`w-3 h-3 text-purple-400 ${isGenerating && !response ? 'animate-pulse' : ''}`} />
+                  {isGenerating && !response ? 'Thinking...' : 'Thinking'}
+                </span>
+                {isThinkingOpen ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+              </button>
+              {(isThinkingOpen || (isGenerating && !response)) && (
+                <div className="px-3 pb-2 max-h-48 overflow-y-auto custom-scrollbar text-[10px] leading-relaxed text-slate-500 whitespace-pre-wrap select-text cursor-text nodrag nowheel">
+                  {reasoning}
+                </div>
+              )}
+            </div>
+          )}
           <div
             ref={responseRef}
             onWheel={(e) => {
@@ -637,7 +984,12 @@ INSTRUCTIONS:
                 e.stopPropagation();
               }
             }}
-            className={`text-xs leading-normal text-slate-700 select-text cursor-text nodrag transition-all duration-300 ${isResponseCollapsed
+            onMouseOver={(e) => {
+              const citation = (e.target as HTMLElement).closest?.('.citation') as HTMLElement | null;
+              setHighlightedSourceId(citation?.dataset.sourceId || null);
+            }}
+            onMouseLeave={() => setHighlightedSourceId(null)}
+            className={`text-xs leading-normal text-slate-700 select-text cursor-text nodrag transition-all duration-300 [&_.citation]:inline-block [&_.citation]:align-super [&_.citation]:text-[9px] [&_.citation]:leading-none [&_.citation]:font-bold [&_.citation]:text-blue-600 [&_.citation]:bg-blue-50 [&_.citation]:px-1 [&_.citation]:py-0.5 [&_.citation]:mx-px [&_.citation]:rounded [&_.citation]:no-underline hover:[&_.citation]:bg-blue-100 ${isResponseCollapsed
               ? 'max-h-72 overflow-y-auto custom-scrollbar'
               : 'max-h-[700px] overflow-y-auto custom-scrollbar'
               }`}
@@ -648,7 +1000,8 @@ INSTRUCTIONS:
               rehypePlugins={[
                 rehypeKatex,
                 () => (tree) => {
-                  if (!data.highlights || data.highlights.length === 0) return;
+                  // Highlights belong to the previous answer, not the one being streamed
+                  if (isGenerating || !data.highlights || data.highlights.length === 0) return;
                   visit(tree, 'text', (node, index, parent) => {
                     if (!parent || !node.value) return;
                     let text = node.value;
@@ -674,6 +1027,35 @@ INSTRUCTIONS:
                       }
                     }
                   });
+                },
+                () => (tree) => {
+                  // [n] markers become links to the numbered source
+                  if (sources.length === 0) return;
+                  visit(tree, 'text', (node: any, index, parent: any) => {
+                    if (!parent || !node.value || parent.tagName === 'code' || parent.tagName === 'a') return;
+                    const parts = node.value.split(/(\[\d+\])/);
+                    if (parts.length === 1) return;
+
+                    const newNodes = parts.filter(Boolean).map((part: string) => {
+                      const source = sources.find(s => `[${s.id}]` === part);
+                      if (!source) return { type: 'text', value: part };
+                      return {
+                        type: 'element',
+                        tagName: 'a',
+                        properties: {
+                          href: isLocalSource(source) ? undefined : source.url,
+                          target: '_blank',
+                          rel: 'noopener noreferrer',
+                          title: source.title,
+                          className: 'citation',
+                          dataSourceId: source.id
+                        },
+                        children: [{ type: 'text', value: source.id }]
+                      };
+                    });
+                    parent.children.splice(index!, 1, ...newNodes);
+                    return index! + newNodes.length;
+                  });
                 }
               ]}
             >
@@ -688,6 +1070,36 @@ INSTRUCTIONS:
         </div>
       )}
 
+      {/* Sources behind the answer, numbered as cited */}
+      {sources.length > 0 && (response || isGenerating) && (
+        <div className="border-t border-slate-100 bg-slate-50 px-4 py-3 rounded-b-xl">
+          <div className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-1.5">
+            <Globe className="w-3 h-3" />
+            Sources
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {sources.map(source => (
+              <a
+                key={source.id}
+                href={isLocalSource(source) ? undefined : source.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                onMouseEnter={() => setHighlightedSourceId(source.id)}
+                onMouseLeave={() => setHighlightedSourceId(null)}
+                className={`group flex items-center gap-1.5 max-w-[180px] px-1.5 py-1 rounded-md border bg-white text-[10px] transition-all nodrag hover:border-blue-300 ${highlightedSourceId === source.id ? 'ring-2 ring-blue-500 border-transparent' : 'border-slate-200'}`}
+                title={source.title}
+              >
+                <span className="font-bold text-slate-400 group-hover:text-blue-500 shrink-0">{source.id}</span>
+                {source.favicon && (
+                  <img src={source.favicon} alt="" className="w-3 h-3 object-contain shrink-0" onError={(e) => e.currentTarget.style.display = 'none'} />
+                )}
+                <span className="truncate text-slate-600 group-hover:text-blue-600">{sourceHostname(source)}</span>
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Collapse Button - Positioned Above Source Handle */}
       <div className="absolute right-0 top-[30%] -translate-y-1/2 translate-x-[50%] flex flex-col items-center gap-1 z-50">
         {data.onCollapse && (
@@ -717,6 +1129,14 @@ INSTRUCTIONS:
             {data.collapsedCount}
           </span>
         )}
+        {data.collapsed && data.collapsedUsage && data.collapsedUsage.tokens > 0 && (
+          <span
+            className="text-[10px] font-medium text-slate-500 bg-white border border-slate-200 px-1.5 py-0.5 rounded-full whitespace-nowrap shadow-sm"
+            title={`Subtree usage\n${data.collapsedUsage.details}`}
+          >
+            {data.collapsedUsage.label}
+          </span>
+        )}
       </div>
       <Handle
         type="source"
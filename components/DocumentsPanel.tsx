@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Paperclip, FileText, Trash2, Upload, Loader2, AlertCircle } from 'lucide-react';
+import { DOCUMENT_ACCEPT, LocalDocument, addDocument, deleteDocument, listDocuments } from '../services/documents';
+
+interface DocumentsPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    canvasId: string;
+}
+
+const formatSize = (bytes: number) =>
+    bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const DocumentsPanel = ({ isOpen, onClose, canvasId }: DocumentsPanelProps) => {
+    const [documents, setDocuments] = useState<LocalDocument[]>([]);
+    const [adding, setAdding] = useState<string[]>([]); // Names of files being read
+    const [errors, setErrors] = useState<string[]>([]);
+    const [isDragging, setIsDragging] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (!isOpen || !canvasId) return;
+        setErrors([]);
+        listDocuments(canvasId)
+            .then(setDocuments)
+            .catch(error => setErrors([`Could not load documents: ${error.message || error}`]));
+    }, [isOpen, canvasId]);
+
+    if (!isOpen) return null;
+
+    const handleFiles = async (files: File[]) => {
+        if (files.length === 0) return;
+        setErrors([]);
+        setAdding(files.map(file => file.name));
+        // One at a time, so each file shows up as soon as it is read
+        for (const file of files) {
+            try {
+                const document = await addDocument(canvasId, file);
+                setDocuments(prev => [...prev, document]);
+            } catch (error: any) {
+                setErrors(prev => [...prev, error.message || `${file.name}: could not be read`]);
+            }
+            setAdding(prev => prev.filter(name => name !== file.name));
+        }
+    };
+
+    const handleDelete = async (documentId: string) => {
+        try {
+            await deleteDocument(documentId);
+            setDocuments(prev => prev.filter(document => document.id !== documentId));
+        } catch (error: any) {
+            setErrors([`Could not delete the document: ${error.message || error}`]);
+        }
+    };
+
+    return (
+        <div
+            className={`absolute top-32 right-4 bottom-4 z-50 w-[380px] bg-white rounded-2xl shadow-2xl border flex flex-col overflow-hidden animate-in fade-in duration-200 ${isDragging ? 'border-blue-400 ring-2 ring-blue-500/20' : 'border-slate-200'}`}
+            onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+                e.preventDefault();
+                setIsDragging(false);
+                handleFiles(Array.from(e.dataTransfer.files));
+            }}
+        >
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 bg-slate-50">
+                <div className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                    <Paperclip className="w-4 h-4 text-blue-500" />
+                    Canvas Documents
+                </div>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={adding.length > 0}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-slate-600 hover:bg-white hover:text-blue-600 rounded-md border border-transparent hover:border-slate-200 transition-colors disabled:opacity-50"
+                        title="Add PDF, Markdown, text or HTML files"
+                    >
+                        <Upload className="w-3.5 h-3.5" />
+                        Add files
+                    </button>
+                    <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded-md transition-colors" title="Close">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+                <input
+                    type="file"
+                    ref={fileInputRef}
+                    multiple
+                    accept={DOCUMENT_ACCEPT}
+                    onChange={(e) => {
+                        handleFiles(Array.from(e.target.files || []));
+                        // Reset input so same file can be selected again
+                        e.target.value = '';
+                    }}
+                    className="hidden"
+                />
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-3 text-xs">
+                <div className="text-slate-500 leading-relaxed">
+                    Files stay in this browser. Research nodes on this canvas search them along with the web (or on their own without a search key), and chat nodes can search them with the "Search documents" tool. Answers cite the file name and page.
+                </div>
+
+                {errors.length > 0 && (
+                    <ul className="flex flex-col gap-1 text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">
+                        {errors.map(error => (
+                            <li key={error} className="flex gap-1.5 items-start">
+                                <AlertCircle className="w-3.5 h-3.5 mt-px shrink-0" />
+                                {error}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {documents.length === 0 && adding.length === 0 && (
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="border-2 border-dashed border-slate-200 rounded-xl py-8 text-slate-400 hover:border-blue-300 hover:text-blue-500 transition-colors"
+                    >
+                        Drop files here or click to add
+                    </button>
+                )}
+
+                {documents.map(document => (
+                    <div key={document.id} className="group flex items-center gap-3 p-2 rounded-lg border border-slate-200 bg-white">
+                        <div className="w-8 h-8 rounded-lg bg-slate-100 flex items-center justify-center shrink-0">
+                            <FileText className="w-4 h-4 text-slate-400" />
+                        </div>
+                        <div className="min-w-0 flex-1">
+                            <div className="font-medium text-slate-700 truncate" title={document.name}>{document.name}</div>
+                            <div className="text-[10px] text-slate-400">
+                                {document.type.toUpperCase()} · {formatSize(document.size)}
+                                {document.pageCount !== undefined && ` · ${document.pageCount} page${document.pageCount === 1 ? '' : 's'}`}
+                                {` · ${document.chunkCount} chunk${document.chunkCount === 1 ? '' : 's'}`}
+                            </div>
+                        </div>
+                        <button
+                            onClick={() => handleDelete(document.id)}
+                            className="p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors opacity-0 group-hover:opacity-100"
+                            title="Remove document"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                ))}
+
+                {adding.map(name => (
+                    <div key={name} className="flex items-center gap-3 p-2 rounded-lg border border-dashed border-slate-200 text-slate-500">
+                        <Loader2 className="w-4 h-4 animate-spin text-blue-500 shrink-0" />
+                        <span className="truncate">Reading {name}...</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
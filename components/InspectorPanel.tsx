@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import { Edge } from '@xyflow/react';
+import { X, ScanSearch, Copy, Check, Terminal } from 'lucide-react';
+import { AppNode, ChatNodeData, ResearchNodeData } from '../types';
+import { ChatMessage, CompletionRequest, HttpRequestPreview, describeRequest, formatCurl, getLLMConfig } from '../services/llm';
+import { buildChatMessages, prepareChatRequest } from '../services/chatRequest';
+import { getMaxToolRounds } from '../services/agent';
+import { buildQueryRequest, getResearchDepth } from '../services/research';
+import { ContextPlan } from '../services/context';
+import { formatTokens } from '../services/usage';
+import { CanvasSettings } from './CanvasContext';
+
+interface InspectorPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    node?: AppNode;
+    nodes: AppNode[];
+    edges: Edge[];
+    canvas: CanvasSettings;
+}
+
+interface Inspection {
+    request: CompletionRequest;
+    http: HttpRequestPreview;
+    provider: string;
+    model: string;
+    plan?: ContextPlan;
+    preset?: string;
+    search?: string; // Native search row, when there is more to say than on / off
+    notes: string[];
+}
+
+const ROLE_STYLES: Record<ChatMessage['role'], string> = {
+    system: 'bg-slate-100 text-slate-600',
+    user: 'bg-blue-50 text-blue-600',
+    assistant: 'bg-emerald-50 text-emerald-600',
+    tool: 'bg-amber-50 text-amber-600'
+};
+
+// Rebuild the request a node would send next, from its saved data
+function inspectNode(node: AppNode, nodes: AppNode[], edges: Edge[], canvas: CanvasSettings): Inspection | null {
+    if (node.type === 'chatNode') {
+        const data = node.data as ChatNodeData;
+        const prepared = prepareChatRequest({
+            nodeId: node.id,
+            inputText: data.inputText || '',
+            quote: data.quote,
+            quoteVersion: data.quoteVersion,
+            profileId: data.profileId,
+            reasoningMode: data.reasoningMode || 'off',
+            isSearchEnabled: data.isSearchEnabled || false,
+            enabledTools: data.enabledTools,
+            promptPresetId: data.promptPresetId,
+            canvasPresetId: canvas.promptPresetId,
+            canvasTitle: canvas.title,
+            inheritedSources: data.inheritedSources
+        }, nodes, edges);
+        const request = { ...prepared.request, messages: buildChatMessages(prepared) };
+        const config = getLLMConfig(data.profileId);
+
+        const notes: string[] = [];
+        if (prepared.merged.length > 0) {
+            notes.push(`History merges ${prepared.merged.length} branches: ${prepared.merged.map(p => `"${p.label}"`).join(', ')}.`);
+        }
+        if (!data.inputText?.trim()) notes.push('The question box is empty, so the last message is blank.');
+        if (prepared.plan.summary && !prepared.plan.summary.text) {
+            notes.push(`The summary of ${prepared.plan.summary.turnCount} earlier turn(s) is generated when the request is sent.`);
+        }
+        if (request.tools) {
+            notes.push(`If the model calls tools, each round of results is appended and sent again (up to ${getMaxToolRounds()} rounds).`);
+        }
+
+        return {
+            request,
+            http: describeRequest(request, { profileId: data.profileId }),
+            provider: config.provider,
+            model: config.model,
+            plan: prepared.plan,
+            preset: prepared.preset.name,
+            search: prepared.nativeSearchDropped ? 'off (web_search tool, not combinable with other tools)' : undefined,
+            notes
+        };
+    }
+
+    if (node.type === 'researchNode') {
+        const data = node.data as ResearchNodeData;
+        const request = buildQueryRequest(data.query || '');
+        const config = getLLMConfig();
+        return {
+            request,
+            http: describeRequest(request, {}, false),
+            provider: config.provider,
+            model: config.model,
+            notes: [
+                'First call of a research run (query generation). The synthesis prompt depends on the search results.',
+                `Up to ${getResearchDepth().rounds} search rounds; each round after the first starts with a call that looks for gaps in the sources found so far.`,
+                ...(data.report ? ['Report mode: the synthesis is an outline call followed by one call per section.'] : []),
+                ...(data.inheritedSources?.length ? [`Follow-up of earlier research: instead of the call above, the first call looks for what its ${data.inheritedSources.length} inherited sources leave open.`] : [])
+            ]
+        };
+    }
+
+    return null;
+}
+
+export const InspectorPanel = ({ isOpen, onClose, node, nodes, edges, canvas }: InspectorPanelProps) => {
+    const [copied, setCopied] = useState<'json' | 'curl' | null>(null);
+
+    const inspection = useMemo(
+        () => (isOpen && node ? inspectNode(node, nodes, edges, canvas) : null),
+        [isOpen, node, nodes, edges, canvas]
+    );
+
+    if (!isOpen) return null;
+
+    const handleCopy = async (kind: 'json' | 'curl') => {
+        if (!inspection) return;
+        const text = kind === 'json'
+            ? JSON.stringify(inspection.http.body, null, 2)
+            : formatCurl(inspection.http);
+        try {
+            await navigator.clipboard.writeText(text);
+            setCopied(kind);
+            setTimeout(() => setCopied(null), 1500);
+        } catch (error) {
+            console.error('Failed to copy request:', error);
+        }
+    };
+
+    const params = inspection ? [
+        ['Provider', inspection.provider],
+        ['Model', inspection.request.model || inspection.model],
+        ...(inspection.preset ? [['Prompt preset', inspection.preset]] : []),
+        ['Reasoning', inspection.request.reasoningMode || 'off'],
+        ['Native search', inspection.search ?? (inspection.request.webSearch ? 'on' : 'off')],
+        ['JSON mode', inspection.request.json ? 'on' : 'off'],
+        ['Max tokens', inspection.request.maxTokens !== undefined ? String(inspection.request.maxTokens) : 'provider default'],
+        ['Temperature', inspection.request.temperature !== undefined ? String(inspection.request.temperature) : 'provider default'],
+        ...(inspection.plan ? [[
+            'Context',
+            `${formatTokens(inspection.plan.fixedTokens + inspection.plan.historyTokens)} / ${formatTokens(inspection.plan.contextWindow)} tokens`
+        ]] : [])
+    ] : [];
+
+    return (
+        <div className="absolute top-32 right-4 bottom-4 z-50 w-[440px] bg-white rounded-2xl shadow-2xl border border-slate-200 flex flex-col overflow-hidden animate-in fade-in duration-200">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 bg-slate-50">
+                <div className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                    <ScanSearch className="w-4 h-4 text-blue-500" />
+                    Request Inspector
+                </div>
+                <div className="flex items-center gap-1">
+                    {inspection && (
+                        <>
+                            <button
+                                onClick={() => handleCopy('json')}
+                                className="flex items-center gap-1 px-2 py-1 text-xs text-slate-600 hover:bg-white hover:text-blue-600 rounded-md border border-transparent hover:border-slate-200 transition-colors"
+                                title="Copy the request body as JSON"
+                            >
+                                {copied === 'json' ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                                JSON
+                            </button>
+                            <button
+                                onClick={() => handleCopy('curl')}
+                                className="flex items-center gap-1 px-2 py-1 text-xs text-slate-600 hover:bg-white hover:text-blue-600 rounded-md border border-transparent hover:border-slate-200 transition-colors"
+                                title="Copy as a curl command (the API key is left as $API_KEY)"
+                            >
+                                {copied === 'curl' ? <Check className="w-3.5 h-3.5" /> : <Terminal className="w-3.5 h-3.5" />}
+                                curl
+                            </button>
+                        </>
+                    )}
+                    <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded-md transition-colors" title="Close">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-4 text-xs">
+                {!node && (
+                    <div className="text-slate-400 text-center py-8">Select a node to see the request it sends.</div>
+                )}
+
+                {node && !inspection && (
+                    <div className="text-slate-400 text-center py-8">
+                        Notes are not sent to a model. They are skipped when building context for their children.
+                    </div>
+                )}
+
+                {inspection && (
+                    <>
+                        {/* Endpoint */}
+                        <div className="font-mono text-[11px] text-slate-600 break-all bg-slate-50 border border-slate-100 rounded-lg px-3 py-2">
+                            <span className="font-semibold text-blue-600 mr-1.5">POST</span>
+                            {inspection.http.url}
+                        </div>
+
+                        {inspection.notes.length > 0 && (
+                            <ul className="flex flex-col gap-1 text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+                                {inspection.notes.map(note => <li key={note}>{note}</li>)}
+                            </ul>
+                        )}
+
+                        {/* Completion params */}
+                        <div>
+                            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1.5">Params</div>
+                            <div className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                                {params.map(([label, value]) => (
+                                    <React.Fragment key={label}>
+                                        <span className="text-slate-400">{label}</span>
+                                        <span className="text-slate-700 font-mono break-all">{value}</span>
+                                    </React.Fragment>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Messages, system prompt first */}
+                        <div>
+                            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1.5">
+                                Messages ({inspection.request.messages.length})
+                            </div>
+                            <div className="flex flex-col gap-2">
+                                {inspection.request.messages.map((message, index) => (
+                                    <div key={index} className="border border-slate-100 rounded-lg overflow-hidden">
+                                        <div className="flex items-center justify-between px-2 py-1 bg-slate-50/60">
+                                            <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${ROLE_STYLES[message.role]}`}>{message.role}</span>
+                                            <span className="text-[10px] text-slate-400">#{index + 1}</span>
+                                        </div>
+                                        <pre className="px-3 py-2 whitespace-pre-wrap break-words font-mono text-[11px] text-slate-700 max-h-60 overflow-y-auto">
+                                            {message.content || <span className="text-slate-400 italic">(empty)</span>}
+                                        </pre>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {inspection.request.tools && inspection.request.tools.length > 0 && (
+                            <div>
+                                <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1.5">Tools</div>
+                                <pre className="px-3 py-2 bg-slate-50 border border-slate-100 rounded-lg whitespace-pre-wrap break-words font-mono text-[11px] text-slate-700">
+                                    {JSON.stringify(inspection.request.tools, null, 2)}
+                                </pre>
+                            </div>
+                        )}
+
+                        {/* Provider-specific body exactly as sent */}
+                        <details>
+                            <summary className="text-[10px] font-bold text-slate-400 uppercase tracking-wider cursor-pointer select-none">Raw request body</summary>
+                            <pre className="mt-1.5 px-3 py-2 bg-slate-50 border border-slate-100 rounded-lg whitespace-pre-wrap break-words font-mono text-[11px] text-slate-700 max-h-96 overflow-y-auto">
+                                {JSON.stringify(inspection.http.body, null, 2)}
+                            </pre>
+                        </details>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -233,6 +233,14 @@ export const NoteNode = ({ id, data, isConnectable, selected }: NodeProps<NoteNo
                         {data.collapsedCount}
                     </span>
                 )}
+                {data.collapsed && data.collapsedUsage && data.collapsedUsage.tokens > 0 && (
+                    <span
+                        className="text-[10px] font-medium text-slate-500 bg-white border border-slate-200 px-1.5 py-0.5 rounded-full whitespace-nowrap shadow-sm"
+                        title={`Subtree usage\n${data.collapsedUsage.details}`}
+                    >
+                        {data.collapsedUsage.label}
+                    </span>
+                )}
             </div>
 
             {/* Source Handle */}
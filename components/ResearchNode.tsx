@@ -1,16 +1,24 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useContext } from 'react';
 import { NodeProps, useReactFlow, Handle, Position } from '@xyflow/react';
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import remarkGfm from 'remark-gfm';
 import rehypeKatex from 'rehype-katex';
-import { BookOpen, AlertCircle, ChevronDown, ChevronUp, ChevronsDown, ChevronsUp, Loader2, Globe, FileText, Send, GitFork, Trash2 } from 'lucide-react';
+import { visit } from 'unist-util-visit';
+import { BookOpen, AlertCircle, ChevronDown, ChevronUp, ChevronsDown, ChevronsUp, Loader2, Globe, FileText, Send, GitFork, Trash2, Square, UserCog, ShieldCheck, ShieldAlert, Database, RefreshCw, ListChecks, Plus, X, ScrollText, GitBranchPlus } from 'lucide-react';
 import 'katex/dist/katex.min.css';
-import { ResearchNodeData, ResearchStep, Source } from '../types';
-import { executeDeepResearch } from '../services/research';
+import { CitationCheck, ResearchNodeData, ResearchStep, Source, TokenUsage } from '../types';
+import { ResearchCallbacks, executeDeepResearch, executeResynthesis, planResearch } from '../services/research';
+import { describeUsage, sumUsage } from '../services/usage';
+import { DEFAULT_RESEARCH_PRESET_ID, PromptPreset, loadPresets, renderPrompt, resolvePreset } from '../services/prompts';
+import { isLocalSource, sourceHostname, withSourceContent } from '../services/sources';
+import { describeCitationChecks, findCitationMarkers } from '../services/verification';
+import { BIBLIOGRAPHY_HEADING, sectionAt } from '../services/report';
+import { CanvasContext } from './CanvasContext';
 
 export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<ResearchNodeData>) => {
-    const { updateNodeData, deleteElements } = useReactFlow();
+    const { updateNodeData, deleteElements, getNodes, getEdges } = useReactFlow();
+    const canvas = useContext(CanvasContext);
 
     // Local state handling often provides smoother updates for complex objects than useReactFlow hook alone
     const [query, setQuery] = useState(data.query || '');
@@ -18,18 +26,26 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
     const [steps, setSteps] = useState<ResearchStep[]>(data.steps || []);
     const [answer, setAnswer] = useState(data.answer || '');
     const [sources, setSources] = useState<Source[]>(data.sources || []);
+    const [citationChecks, setCitationChecks] = useState<CitationCheck[]>(data.citationChecks || []);
+    const [planFirst, setPlanFirst] = useState(data.planFirst === true);
+    const [report, setReport] = useState(data.report === true);
+    const [plannedQueries, setPlannedQueries] = useState<string[]>((data.plannedQueries as string[] | undefined) || []);
     const [error, setError] = useState(data.error);
+    const [promptPresetId, setPromptPresetId] = useState(data.promptPresetId as string | undefined);
+    const [presets, setPresets] = useState<PromptPreset[]>(loadPresets);
 
     // UI State
     const [isThinkingOpen, setIsThinkingOpen] = useState(true);
     const [isResponseCollapsed, setIsResponseCollapsed] = useState(false);
     const [highlightedSourceId, setHighlightedSourceId] = useState<string | null>(null);
+    const [passagesSourceId, setPassagesSourceId] = useState<string | null>(null);
 
     // Selection State
     const [showQuoteBtn, setShowQuoteBtn] = useState(false);
     const [selectedText, setSelectedText] = useState('');
     const answerRef = useRef<HTMLDivElement>(null);
     const nodeRef = useRef<HTMLDivElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     // Resizable functionality
     const [nodeSize, setNodeSize] = useState({
@@ -73,6 +89,8 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
         if (data.steps && JSON.stringify(data.steps) !== JSON.stringify(steps)) setSteps(data.steps);
         if (data.answer && data.answer !== answer) setAnswer(data.answer);
         if (data.sources && JSON.stringify(data.sources) !== JSON.stringify(sources)) setSources(data.sources);
+        if (data.citationChecks && JSON.stringify(data.citationChecks) !== JSON.stringify(citationChecks)) setCitationChecks(data.citationChecks);
+        if (data.plannedQueries && JSON.stringify(data.plannedQueries) !== JSON.stringify(plannedQueries)) setPlannedQueries(data.plannedQueries);
     }, [data]);
 
     // Handle Text Selection
@@ -120,21 +138,24 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
 
     const handleDelete = () => {
         // Explicitly remove connected edges to ensure cleanup
-        const edges = useReactFlow().getEdges(); // Use getEdges from hook directly if needed, or destructured above
-        const connectedEdges = edges.filter(edge => edge.source === id || edge.target === id);
+        const connectedEdges = getEdges().filter(edge => edge.source === id || edge.target === id);
         deleteElements({
             nodes: [{ id }],
             edges: connectedEdges
         });
     };
 
-    const handleSearch = async () => {
+    // 'plan' only drafts the queries for review; a rewrite keeps the sources and only runs the
+    // synthesis again; 'search' runs the whole research, from the approved queries when given
+    const runResearch = async (mode: 'search' | 'plan' | 'rewrite', approvedQueries?: string[]) => {
         if (!query.trim()) return;
+        const rewrite = mode === 'rewrite';
 
         setStatus('running');
         setSteps([]);
         setAnswer('');
-        setSources([]);
+        if (!rewrite) setSources([]);
+        setCitationChecks([]);
         setError(undefined);
         setIsThinkingOpen(true);
 
@@ -144,10 +165,21 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
             status: 'running',
             steps: [],
             answer: '',
-            sources: []
+            ...(rewrite ? {} : { sources: [] }),
+            citationChecks: []
         });
 
-        await executeDeepResearch(query, {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        let errorMessage: string | undefined;
+        // Earlier runs stay in the total, they were paid for too
+        let usage = [...((data.usage as TokenUsage[] | undefined) || [])];
+        const persona = renderPrompt(
+            resolvePreset(promptPresetId, canvas.promptPresetId, DEFAULT_RESEARCH_PRESET_ID).template,
+            { question: query, canvas: canvas.title }
+        );
+
+        const callbacks: ResearchCallbacks = {
             onStepUpdate: (updatedSteps) => {
                 setSteps(updatedSteps);
                 updateNodeData(id, { steps: updatedSteps });
@@ -164,18 +196,84 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
                 setSources(updatedSources);
                 updateNodeData(id, { sources: updatedSources });
             },
+            onCitationChecks: (checks) => {
+                setCitationChecks(checks);
+                updateNodeData(id, { citationChecks: checks });
+            },
+            onUsage: (callUsage) => {
+                usage = [...usage, callUsage];
+                updateNodeData(id, { usage });
+            },
             onError: (errMsg) => {
+                errorMessage = errMsg;
                 setError(errMsg);
-                setStatus('error');
-                updateNodeData(id, { error: errMsg, status: 'error' });
             }
-        });
+        };
+        // The parent's sources saved on this node have no text, it's read from the parent
+        const inheritedSources = data.inheritedSources?.length
+            ? withSourceContent(data.inheritedSources, id, getNodes(), getEdges())
+            : undefined;
+        const options = { signal: controller.signal, persona, canvasId: canvas.id, queries: approvedQueries, report, inheritedSources };
+        if (mode === 'plan') {
+            const planned = await planResearch(query, callbacks, options);
+            abortControllerRef.current = null;
+            if (planned) {
+                setPlannedQueries(planned);
+                setStatus('planning');
+                updateNodeData(id, { status: 'planning', plannedQueries: planned });
+                return;
+            }
+        } else if (rewrite) {
+            await executeResynthesis(query, sources, callbacks, options);
+        } else {
+            await executeDeepResearch(query, callbacks, options);
+        }
+
+        abortControllerRef.current = null;
+
+        // Don't let a stop or an error be overwritten by 'completed'
+        const finalStatus: ResearchNodeData['status'] = controller.signal.aborted ? 'stopped'
+            : errorMessage ? 'error'
+                : 'completed';
+        setStatus(finalStatus);
+        updateNodeData(id, { status: finalStatus, error: errorMessage });
+        if (finalStatus === 'completed') {
+            setIsThinkingOpen(false); // Collapse thinking on completion
+        }
+    };
+
+    const handleSearch = () => runResearch(planFirst ? 'plan' : 'search');
+
+    const updatePlan = (queries: string[]) => {
+        setPlannedQueries(queries);
+        updateNodeData(id, { plannedQueries: queries });
+    };
+
+    const approvedQueries = plannedQueries.map(q => q.trim()).filter(Boolean);
+    const inheritedCount = data.inheritedSources?.length || 0;
+    // A follow-up may be answered from the inherited sources alone
+    const canApprovePlan = approvedQueries.length > 0 || inheritedCount > 0;
+
+    const handleApprovePlan = () => {
+        if (!canApprovePlan) return;
+        updateNodeData(id, { plannedQueries: approvedQueries });
+        setPlannedQueries(approvedQueries);
+        runResearch('search', approvedQueries);
+    };
 
-        setStatus('completed');
-        updateNodeData(id, { status: 'completed' });
-        setIsThinkingOpen(false); // Collapse thinking on completion
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
     };
 
+    const usageEntries = (data.usage as TokenUsage[] | undefined) || [];
+    const nodeUsage = usageEntries.length > 0 ? describeUsage(sumUsage(usageEntries)) : null;
+    const passagesSource = sources.find(source => source.id === passagesSourceId);
+
+    // Cancel any in-flight research when the node is removed
+    useEffect(() => {
+        return () => abortControllerRef.current?.abort();
+    }, []);
+
     return (
         <div
             ref={nodeRef}
@@ -218,6 +316,14 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
                         {data.collapsedCount}
                     </span>
                 )}
+                {data.collapsed && data.collapsedUsage && data.collapsedUsage.tokens > 0 && (
+                    <span
+                        className="text-[10px] font-medium text-slate-500 bg-white border border-slate-200 px-1.5 py-0.5 rounded-full whitespace-nowrap shadow-sm"
+                        title={`Subtree usage\n${data.collapsedUsage.details}`}
+                    >
+                        {data.collapsedUsage.label}
+                    </span>
+                )}
             </div>
             <Handle type="source" position={Position.Right} className="!bg-slate-300 !w-3 !h-3" isConnectable={isConnectable} />
 
@@ -259,6 +365,11 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
                     <BookOpen className="w-4 h-4" />
                 </div>
                 <div className="font-semibold text-slate-700">Deep Research</div>
+                {nodeUsage && (
+                    <span className="text-[10px] text-slate-400 ml-1" title={nodeUsage.details}>
+                        {nodeUsage.label}
+                    </span>
+                )}
 
             </div>
 
@@ -271,9 +382,16 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
                         <div className="text-sm text-slate-500">
                             Enter a topic to conduct a comprehensive academic analysis with citations.
                         </div>
+                        {inheritedCount > 0 && (
+                            <div className="flex items-center gap-2 text-xs text-blue-700 bg-blue-50 border border-blue-100 rounded-lg px-3 py-2">
+                                <GitBranchPlus className="w-3.5 h-3.5 shrink-0" />
+                                Follow-up of earlier research: its {inheritedCount} sources keep their numbers, and only what they don't cover is searched.
+                            </div>
+                        )}
                         <textarea
                             value={query}
                             onChange={(e) => setQuery(e.target.value)}
+                            onBlur={() => updateNodeData(id, { query })}
                             placeholder="e.g., 'Impact of solid state batteries on EV market 2026'..."
                             rows={4}
                             className="w-full resize-none p-4 rounded-xl border border-slate-200 bg-slate-50 text-slate-800 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all font-medium"
@@ -284,14 +402,60 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
                                 }
                             }}
                         />
-                        <button
-                            onClick={handleSearch}
-                            disabled={!query.trim()}
-                            className="self-end bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-lg font-medium shadow-sm shadow-blue-200 transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                            <Send className="w-4 h-4" />
-                            Start Research
-                        </button>
+                        <div className="flex items-center justify-between gap-3">
+                            {/* Persona used for the synthesis step */}
+                            <label className="flex items-center gap-1.5 text-xs text-slate-500 min-w-0" title="System prompt preset">
+                                <UserCog className="w-3.5 h-3.5 shrink-0" />
+                                <select
+                                    value={promptPresetId || ''}
+                                    onFocus={() => setPresets(loadPresets())}
+                                    onChange={(e) => {
+                                        const value = e.target.value || undefined;
+                                        setPromptPresetId(value);
+                                        updateNodeData(id, { promptPresetId: value });
+                                    }}
+                                    className="bg-transparent border border-slate-200 rounded-md px-1.5 py-1 text-xs text-slate-600 focus:outline-none focus:ring-2 focus:ring-blue-500/20 truncate nodrag"
+                                >
+                                    <option value="">Default ({resolvePreset(undefined, canvas.promptPresetId, DEFAULT_RESEARCH_PRESET_ID).name})</option>
+                                    {presets.map(preset => (
+                                        <option key={preset.id} value={preset.id}>{preset.name}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer shrink-0 nodrag" title="Review and edit the search queries before searching">
+                                <input
+                                    type="checkbox"
+                                    checked={planFirst}
+                                    onChange={(e) => {
+                                        setPlanFirst(e.target.checked);
+                                        updateNodeData(id, { planFirst: e.target.checked });
+                                    }}
+                                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                Plan first
+                            </label>
+                            <label className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer shrink-0 nodrag" title="Write an outlined report, section by section, with a bibliography">
+                                <input
+                                    type="checkbox"
+                                    checked={report}
+                                    onChange={(e) => {
+                                        setReport(e.target.checked);
+                                        updateNodeData(id, { report: e.target.checked });
+                                    }}
+                                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                <ScrollText className="w-3.5 h-3.5" />
+                                Report
+                            </label>
+                            <button
+                                onClick={handleSearch}
+                                disabled={!query.trim()}
+                                className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-lg font-medium shadow-sm shadow-blue-200 transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {planFirst ? <ListChecks className="w-4 h-4" /> : <Send className="w-4 h-4" />}
+                                {planFirst ? 'Plan Research' : 'Start Research'}
+                            </button>
+                        </div>
                     </div>
                 )}
 
@@ -301,16 +465,54 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
 
                         {/* Thinking / Status Section */}
                         <div className={`border-b border-slate-100 transition-all duration-300 ${!isThinkingOpen ? 'bg-white' : 'bg-slate-50/50'}`}>
-                            <button
-                                onClick={() => setIsThinkingOpen(!isThinkingOpen)}
-                                className="w-full flex items-center justify-between px-5 py-3 text-xs font-medium text-slate-500 hover:text-slate-800 transition-colors"
-                            >
-                                <div className="flex items-center gap-2">
-                                    {status === 'running' ? <Loader2 className="w-3.5 h-3.5 animate-spin text-blue-500" /> : <BookOpen className="w-3.5 h-3.5" />}
-                                    {status === 'running' ? 'Research in progress...' : 'Research complete'}
-                                </div>
-                                {isThinkingOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
-                            </button>
+                            <div className="flex items-center">
+                                <button
+                                    onClick={() => setIsThinkingOpen(!isThinkingOpen)}
+                                    className="flex-1 flex items-center justify-between px-5 py-3 text-xs font-medium text-slate-500 hover:text-slate-800 transition-colors"
+                                >
+                                    <div className="flex items-center gap-2">
+                                        {status === 'running' ? <Loader2 className="w-3.5 h-3.5 animate-spin text-blue-500" /> :
+                                            status === 'stopped' ? <Square className="w-3.5 h-3.5 text-amber-500 fill-current" /> :
+                                                status === 'planning' ? <ListChecks className="w-3.5 h-3.5 text-blue-500" /> :
+                                                    <BookOpen className="w-3.5 h-3.5" />}
+                                        {status === 'running' ? 'Research in progress...' :
+                                            status === 'stopped' ? 'Research stopped' :
+                                                status === 'planning' ? 'Review the research plan' :
+                                                    status === 'error' ? 'Research failed' : 'Research complete'}
+                                    </div>
+                                    {isThinkingOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                                </button>
+                                {status !== 'running' && sources.length > 0 && (
+                                    <button
+                                        onClick={() => runResearch('rewrite')}
+                                        className="mr-3 flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-slate-500 hover:text-blue-600 hover:bg-blue-50 border border-slate-200 transition-colors nodrag"
+                                        title="Write the answer again from the saved sources, without searching"
+                                    >
+                                        <RefreshCw className="w-3 h-3" />
+                                        Rewrite
+                                    </button>
+                                )}
+                                {(status === 'completed' || status === 'stopped') && answer && data.onBranch && (
+                                    <button
+                                        onClick={() => data.onBranch?.('', id, 'researchNode')}
+                                        className="mr-3 flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-slate-500 hover:text-blue-600 hover:bg-blue-50 border border-slate-200 transition-colors nodrag"
+                                        title="Research a follow-up question, starting from these sources"
+                                    >
+                                        <GitBranchPlus className="w-3 h-3" />
+                                        Follow up
+                                    </button>
+                                )}
+                                {status === 'running' && (
+                                    <button
+                                        onClick={handleStop}
+                                        className="mr-3 flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-slate-500 hover:text-red-600 hover:bg-red-50 border border-slate-200 transition-colors nodrag"
+                                        title="Stop research"
+                                    >
+                                        <Square className="w-3 h-3 fill-current" />
+                                        Stop
+                                    </button>
+                                )}
+                            </div>
 
                             {isThinkingOpen && (
                                 <div className="px-5 pb-4 space-y-3 animate-in slide-in-from-top-2 fade-in duration-200">
@@ -320,17 +522,81 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
                          w-6 h-6 rounded-full flex items-center justify-center shrink-0 border
                          ${step.status === 'done' ? 'bg-green-100 border-green-200 text-green-600' :
                                                     step.status === 'running' ? 'bg-blue-100 border-blue-200 text-blue-600 animate-pulse' :
-                                                        'bg-slate-100 border-slate-200 text-slate-400'}
+                                                        step.status === 'stopped' ? 'bg-amber-50 border-amber-200 text-amber-600' :
+                                                            'bg-slate-100 border-slate-200 text-slate-400'}
                        `}>
                                                 {step.status === 'running' ? <Loader2 className="w-3 h-3 animate-spin" /> :
                                                     step.status === 'done' ? <span className="text-[10px]">✓</span> :
+                                                        step.status === 'stopped' ? <span className="text-[10px]">■</span> :
                                                         <span className="text-[10px]">{step.id}</span>}
                                             </div>
                                             <span className={`${step.status === 'pending' ? 'text-slate-400' : 'text-slate-700'}`}>
                                                 {step.label}
                                             </span>
+                                            {step.cached && (
+                                                <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-slate-100 text-[10px] text-slate-500 shrink-0" title="Served from the research cache">
+                                                    <Database className="w-2.5 h-2.5" />
+                                                    cached
+                                                </span>
+                                            )}
                                         </div>
                                     ))}
+                                    {/* Plan review: the queries of the first round, searched once approved */}
+                                    {status === 'planning' && (
+                                        <div className="flex flex-col gap-2 pt-1 nodrag">
+                                            {plannedQueries.map((plannedQuery, index) => (
+                                                <div key={index} className="flex items-center gap-2">
+                                                    <span className="w-6 text-right text-[10px] text-slate-400 shrink-0">{index + 1}</span>
+                                                    <input
+                                                        value={plannedQuery}
+                                                        onChange={(e) => updatePlan(plannedQueries.map((q, i) => i === index ? e.target.value : q))}
+                                                        onKeyDown={(e) => {
+                                                            if (e.key === 'Enter') handleApprovePlan();
+                                                        }}
+                                                        placeholder="Search query"
+                                                        className="flex-1 min-w-0 px-2.5 py-1.5 rounded-md border border-slate-200 bg-white text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                                    />
+                                                    <button
+                                                        onClick={() => updatePlan(plannedQueries.filter((_, i) => i !== index))}
+                                                        className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+                                                        title="Remove query"
+                                                    >
+                                                        <X className="w-3.5 h-3.5" />
+                                                    </button>
+                                                </div>
+                                            ))}
+                                            <div className="flex items-center justify-between gap-2 pl-8">
+                                                <button
+                                                    onClick={() => updatePlan([...plannedQueries, ''])}
+                                                    className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-slate-500 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+                                                >
+                                                    <Plus className="w-3 h-3" />
+                                                    Add query
+                                                </button>
+                                                <div className="flex items-center gap-2">
+                                                    <button
+                                                        onClick={() => {
+                                                            setStatus('idle');
+                                                            updateNodeData(id, { status: 'idle' });
+                                                        }}
+                                                        className="px-2.5 py-1.5 rounded-md text-xs text-slate-500 hover:text-slate-800 hover:bg-slate-100 transition-colors"
+                                                    >
+                                                        Edit question
+                                                    </button>
+                                                    <button
+                                                        onClick={handleApprovePlan}
+                                                        disabled={!canApprovePlan}
+                                                        className="flex items-center gap-1.5 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-md text-xs font-medium shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                                    >
+                                                        <Send className="w-3 h-3" />
+                                                        {approvedQueries.length > 0
+                                                            ? `Search ${approvedQueries.length} ${approvedQueries.length === 1 ? 'query' : 'queries'}`
+                                                            : 'Answer from inherited sources'}
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        </div>
+                                    )}
                                     {status === 'error' && (
                                         <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm flex gap-2 items-start border border-red-100">
                                             <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
@@ -349,6 +615,10 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
 
                                 <div
                                     ref={answerRef}
+                                    onMouseOver={(e) => {
+                                        const citation = (e.target as HTMLElement).closest?.('.citation') as HTMLElement | null;
+                                        setHighlightedSourceId(citation?.dataset.sourceId || null);
+                                    }}
                                     onWheel={(e) => {
                                         const element = e.currentTarget;
                                         const hasScrollbar = element.scrollHeight > element.clientHeight;
@@ -375,17 +645,106 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
                                         prose-a:text-blue-600 prose-a:no-underline hover:prose-a:underline
                                         prose-strong:text-slate-900 prose-strong:font-semibold
                                         prose-ul:my-2 prose-li:my-0.5
-                                        [&_.citation]:cursor-pointer [&_.citation]:text-blue-600 [&_.citation]:font-bold [&_.citation]:bg-blue-50 [&_.citation]:px-1 [&_.citation]:rounded
+                                        [&_.citation]:cursor-pointer [&_.citation]:text-blue-600 [&_.citation]:font-bold [&_.citation]:bg-blue-50 [&_.citation]:px-1 [&_.citation]:rounded [&_.citation]:no-underline
+                                        [&_.citation-unsupported]:!text-amber-700 [&_.citation-unsupported]:!bg-amber-100 [&_.citation-missing]:!text-red-600 [&_.citation-missing]:!bg-red-100 [&_.citation-missing]:line-through
+                                        [&_.claim-unsupported]:underline [&_.claim-unsupported]:decoration-wavy [&_.claim-unsupported]:decoration-amber-400 [&_.claim-unsupported]:bg-amber-50/60
                                         transition-all duration-300 custom-scrollbar
                                         ${isResponseCollapsed ? 'max-h-72 overflow-y-auto' : 'max-h-[700px] overflow-y-auto'}
                                     `}
                                 >
                                     <ReactMarkdown
                                         remarkPlugins={[remarkMath, remarkGfm]}
-                                        rehypePlugins={[rehypeKatex]}
+                                        rehypePlugins={[
+                                            rehypeKatex,
+                                            () => (tree) => {
+                                                // [n] markers become links to their source, styled by the citation check;
+                                                // the markers and their numbers are the ones findCitations checked
+                                                const markers = findCitationMarkers(answer);
+                                                visit(tree, 'text', (node: any, index, parent: any) => {
+                                                    const start = node.position?.start.offset;
+                                                    const end = node.position?.end.offset;
+                                                    if (!parent || start === undefined || parent.tagName === 'a') return;
+                                                    // Found again in the node's text, which escapes may have shifted
+                                                    const parts: (string | { marker: number; id: string })[] = [];
+                                                    let cursor = 0;
+                                                    markers.forEach((found, marker) => {
+                                                        if (found.index < start || found.index >= end) return;
+                                                        const at = node.value.indexOf(`[${found.sourceId}]`, cursor);
+                                                        if (at < 0) return;
+                                                        if (at > cursor) parts.push(node.value.slice(cursor, at));
+                                                        parts.push({ marker, id: found.sourceId });
+                                                        cursor = at + found.sourceId.length + 2;
+                                                    });
+                                                    if (cursor === 0) return;
+                                                    if (cursor < node.value.length) parts.push(node.value.slice(cursor));
+
+                                                    const newNodes: any[] = [];
+                                                    for (const part of parts) {
+                                                        if (typeof part === 'string') {
+                                                            newNodes.push({ type: 'text', value: part });
+                                                            continue;
+                                                        }
+                                                        const { marker, id } = part;
+                                                        const check = citationChecks.find(c => c.marker === marker);
+                                                        const source = sources.find(s => s.id === id);
+                                                        if (check?.status === 'unsupported') {
+                                                            // Mark the claim: the text since the last sentence end, within this text node
+                                                            const previous = newNodes[newNodes.length - 1];
+                                                            if (previous?.type === 'text') {
+                                                                const start = Math.max(0, ...['. ', '! ', '? '].map(end => {
+                                                                    const at = previous.value.trimEnd().slice(0, -1).lastIndexOf(end);
+                                                                    return at < 0 ? 0 : at + end.length;
+                                                                }));
+                                                                const claim = previous.value.slice(start);
+                                                                newNodes.splice(newNodes.length - 1, 1,
+                                                                    ...(start > 0 ? [{ type: 'text', value: previous.value.slice(0, start) }] : []),
+                                                                    { type: 'element', tagName: 'span', properties: { className: 'claim-unsupported', title: check.reason || 'Not supported by the cited source' }, children: [{ type: 'text', value: claim }] });
+                                                            }
+                                                        }
+                                                        const status = check?.status === 'unsupported' || check?.status === 'missing' ? ` citation-${check.status}` : '';
+                                                        newNodes.push({
+                                                            type: 'element',
+                                                            tagName: 'a',
+                                                            properties: {
+                                                                href: source && !isLocalSource(source) ? source.url : undefined,
+                                                                target: '_blank',
+                                                                rel: 'noopener noreferrer',
+                                                                title: check?.status === 'missing' ? `No source [${id}]`
+                                                                    : [source?.title, check?.reason].filter(Boolean).join('\n'),
+                                                                className: `citation${status}`,
+                                                                dataSourceId: id
+                                                            },
+                                                            children: [{ type: 'text', value: `[${id}]` }]
+                                                        });
+                                                    }
+                                                    parent.children.splice(index!, 1, ...newNodes);
+                                                    return index! + newNodes.length;
+                                                });
+                                            }
+                                        ]}
                                         components={{
                                             p: ({ children }) => {
                                                 return <p>{children}</p>
+                                            },
+                                            // Each section of a report can be discussed in its own branch
+                                            h2: ({ node, children }) => {
+                                                const offset = node?.position?.start.offset;
+                                                const canBranch = status !== 'running' && offset !== undefined && data.onBranch
+                                                    && !answer.startsWith(`## ${BIBLIOGRAPHY_HEADING}`, offset);
+                                                return (
+                                                    <h2 className="group/section flex items-center gap-2">
+                                                        <span>{children}</span>
+                                                        {canBranch && (
+                                                            <button
+                                                                onClick={() => data.onBranch?.(sectionAt(answer, offset), id)}
+                                                                className="p-1 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors opacity-0 group-hover/section:opacity-100"
+                                                                title="Branch a chat from this section"
+                                                            >
+                                                                <GitFork className="w-3.5 h-3.5" />
+                                                            </button>
+                                                        )}
+                                                    </h2>
+                                                );
                                             }
                                         }}
                                     >
@@ -398,6 +757,19 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
                             </div>
                         )}
 
+                        {/* Citation check summary */}
+                        {citationChecks.length > 0 && status !== 'running' && (
+                            <div className={`flex items-center gap-2 px-5 py-2 border-t text-[11px] ${citationChecks.some(check => check.status === 'unsupported' || check.status === 'missing')
+                                ? 'bg-amber-50 border-amber-100 text-amber-700'
+                                : 'bg-white border-slate-100 text-slate-500'}`}
+                            >
+                                {citationChecks.some(check => check.status === 'unsupported' || check.status === 'missing')
+                                    ? <ShieldAlert className="w-3.5 h-3.5 shrink-0" />
+                                    : <ShieldCheck className="w-3.5 h-3.5 shrink-0 text-green-600" />}
+                                <span>Citations: {describeCitationChecks(citationChecks)}</span>
+                            </div>
+                        )}
+
                         {/* Sources Grid */}
                         {sources.length > 0 && (
                             <div className="bg-slate-50 border-t border-slate-100 p-5">
@@ -406,10 +778,10 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
                                     Sources
                                 </div>
                                 <div className="grid grid-cols-2 gap-2">
-                                    {sources.map((source, idx) => (
+                                    {sources.map(source => (
                                         <a
                                             key={source.id}
-                                            href={source.url}
+                                            href={isLocalSource(source) ? undefined : source.url}
                                             target="_blank"
                                             rel="noopener noreferrer"
                                             className={`
@@ -432,15 +804,41 @@ export const ResearchNode = ({ id, data, isConnectable, selected }: NodeProps<Re
                                                     {source.title}
                                                 </div>
                                                 <div className="text-[10px] text-slate-400 truncate">
-                                                    {new URL(source.url).hostname}
+                                                    {isLocalSource(source) ? 'Local file' : sourceHostname(source)}
                                                 </div>
                                             </div>
+                                            {source.passages && source.passages.length > 0 && (
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.preventDefault();
+                                                        setPassagesSourceId(passagesSourceId === source.id ? null : source.id);
+                                                    }}
+                                                    className={`text-[10px] px-1.5 py-0.5 rounded shrink-0 nodrag transition-colors ${passagesSourceId === source.id ? 'bg-blue-100 text-blue-600' : 'bg-slate-100 text-slate-500 hover:text-blue-600'}`}
+                                                    title="Show the passages the answer was written from"
+                                                >
+                                                    {source.passages.length} passage{source.passages.length === 1 ? '' : 's'}
+                                                </button>
+                                            )}
                                             <div className="text-[10px] font-bold text-slate-300 group-hover:text-blue-300 w-5 text-right">
-                                                #{idx + 1}
+                                                #{source.id}
                                             </div>
                                         </a>
                                     ))}
                                 </div>
+                                {passagesSource?.passages && (
+                                    <div className="mt-3 p-3 rounded-lg border border-slate-200 bg-white text-xs nodrag nowheel">
+                                        <div className="font-medium text-slate-600 mb-2 truncate">
+                                            Passages used from [{passagesSource.id}] {passagesSource.title}
+                                        </div>
+                                        <div className="max-h-60 overflow-y-auto custom-scrollbar space-y-2 select-text cursor-text">
+                                            {passagesSource.passages.map((passage, index) => (
+                                                <blockquote key={index} className="border-l-2 border-blue-200 pl-2 text-slate-500 whitespace-pre-wrap">
+                                                    {passage}
+                                                </blockquote>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         )}
 
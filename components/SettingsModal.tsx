@@ -1,10 +1,28 @@
 
 import React, { useState, useEffect } from 'react';
-import { X, Save, Bot, Globe } from 'lucide-react';
+import { X, Save, Bot, Globe, Plus, Trash2, Star, RefreshCw, DollarSign, UserCog, Plug } from 'lucide-react';
+import { ReasoningMode } from '../types';
+import { ModelProfile, createProfile, loadProfiles, getDefaultProfileId, saveProfiles, PROVIDER_DEFAULTS, PROVIDER_CAPABILITIES } from '../services/profiles';
+import { ProviderType } from '../services/providers/types';
+import { listModels } from '../services/llm';
+import { ModelPrice, loadPrices, savePrices } from '../services/usage';
+import { DEFAULT_MAX_TOOL_ROUNDS, getMaxToolRounds, setMaxToolRounds } from '../services/agent';
+import { getVerifyCitations, setVerifyCitations } from '../services/verification';
+import { DEFAULT_CACHE_TTL_HOURS, clearCache, countCached, getCacheTtlHours, setCacheTtlHours } from '../services/cache';
+import { DEFAULT_RESEARCH_DEPTH, ResearchDepth, getReadFullPages, getResearchDepth, setReadFullPages, setResearchDepth } from '../services/research';
+import { CONTEXT_STRATEGIES, ContextStrategy, DEFAULT_CONTEXT_WINDOW, detectContextWindow, getContextStrategy, setContextStrategy } from '../services/context';
+import { McpServerConfig, McpToolInfo, createMcpServerId, listMcpTools, loadMcpServers, saveMcpServers } from '../services/tools';
+import { SEARCH_PROVIDERS, SearchProviderType, getPreferredSearchProvider, setPreferredSearchProvider } from '../services/search';
+import { BUILT_IN_PRESETS, DEFAULT_CHAT_PRESET_ID, DEFAULT_RESEARCH_PRESET_ID, PROMPT_VARIABLES, PromptPreset, createPresetId, loadPresets, savePresets } from '../services/prompts';
+
+const SEARCH_PROVIDER_TYPES = Object.keys(SEARCH_PROVIDERS) as SearchProviderType[];
 
 interface SettingsModalProps {
     isOpen: boolean;
     onClose: () => void;
+    canvasPresetId?: string; // Prompt preset default of the active canvas
+    onCanvasPresetChange: (presetId: string | undefined) => void;
+    onPricesChange: () => void; // Usage totals shown outside the modal are recounted
 }
 
 
@@ -12,37 +30,232 @@ interface SettingsModalProps {
 // ... Wait, I can't just replace the end. I need to inject the tab and the content.
 // I will rewrite the component state/logic first effectively.
 
-export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
+export const SettingsModal = ({ isOpen, onClose, canvasPresetId, onCanvasPresetChange, onPricesChange }: SettingsModalProps) => {
     const [activeTab, setActiveTab] = useState('model');
-    const [apiKey, setApiKey] = useState('');
-    const [modelName, setModelName] = useState('');
-    const [apiUrl, setApiUrl] = useState('');
-    const [searchApiKey, setSearchApiKey] = useState('');
-    const [tavilyApiKey, setTavilyApiKey] = useState('');
+    const [profiles, setProfiles] = useState<ModelProfile[]>([]);
+    const [defaultProfileId, setDefaultProfileId] = useState('');
+    const [selectedProfileId, setSelectedProfileId] = useState('');
+    const [discoveredModels, setDiscoveredModels] = useState<string[]>([]);
+    const [discoveryStatus, setDiscoveryStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+    const [discoveryError, setDiscoveryError] = useState('');
+    const [searchProvider, setSearchProvider] = useState<SearchProviderType>('serper');
+    const [searchKeys, setSearchKeys] = useState<Partial<Record<SearchProviderType, string>>>({});
+    const [includeReasoning, setIncludeReasoning] = useState(false);
+    const [prices, setPrices] = useState<ModelPrice[]>([]);
+    const [contextStrategy, setContextStrategyState] = useState<ContextStrategy>('drop_oldest');
+    const [maxToolRounds, setMaxToolRoundsState] = useState(DEFAULT_MAX_TOOL_ROUNDS);
+    const [researchDepth, setResearchDepthState] = useState<ResearchDepth>(DEFAULT_RESEARCH_DEPTH);
+    const [readFullPages, setReadFullPagesState] = useState(false);
+    const [verifyCitations, setVerifyCitationsState] = useState(false);
+    const [cacheTtlHours, setCacheTtlHoursState] = useState(DEFAULT_CACHE_TTL_HOURS);
+    const [cachedCount, setCachedCount] = useState<number | null>(null);
+    const [presets, setPresets] = useState<PromptPreset[]>([]);
+    const [selectedPresetId, setSelectedPresetId] = useState('');
+    const [canvasPreset, setCanvasPreset] = useState<string | undefined>(undefined);
+    const [mcpServers, setMcpServers] = useState<McpServerConfig[]>([]);
+    const [selectedServerId, setSelectedServerId] = useState('');
+    const [mcpStatus, setMcpStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+    const [mcpError, setMcpError] = useState('');
 
     // Load from localStorage on open
     useEffect(() => {
         if (isOpen) {
-            const storedKey = localStorage.getItem('gemini_api_key') || '';
-            const storedModel = localStorage.getItem('gemini_model_name') || '';
-            const storedUrl = localStorage.getItem('gemini_api_url') || '';
-            const storedSearchKey = localStorage.getItem('serper_api_key') || '';
-            const storedTavilyKey = localStorage.getItem('tavily_api_key') || '';
-
-            setApiKey(storedKey);
-            setModelName(storedModel);
-            setApiUrl(storedUrl);
-            setSearchApiKey(storedSearchKey);
-            setTavilyApiKey(storedTavilyKey);
+            const storedProfiles = loadProfiles();
+            const storedDefaultId = getDefaultProfileId();
+
+            setProfiles(storedProfiles);
+            setDefaultProfileId(storedDefaultId);
+            setSelectedProfileId(storedDefaultId);
+            setSearchProvider(getPreferredSearchProvider());
+            setSearchKeys(Object.fromEntries(SEARCH_PROVIDER_TYPES.map(type =>
+                [type, localStorage.getItem(SEARCH_PROVIDERS[type].storageKey) || ''])));
+            setIncludeReasoning(localStorage.getItem('include_reasoning_in_context') === 'true');
+            setPrices(loadPrices());
+            setContextStrategyState(getContextStrategy());
+            setMaxToolRoundsState(getMaxToolRounds());
+            setResearchDepthState(getResearchDepth());
+            setReadFullPagesState(getReadFullPages());
+            setVerifyCitationsState(getVerifyCitations());
+            setCacheTtlHoursState(getCacheTtlHours());
+            countCached().then(setCachedCount).catch(() => setCachedCount(null));
+            const storedPresets = loadPresets();
+            setPresets(storedPresets);
+            setSelectedPresetId(storedPresets[0].id);
+            setCanvasPreset(canvasPresetId);
+            const storedServers = loadMcpServers();
+            setMcpServers(storedServers);
+            setSelectedServerId(storedServers[0]?.id || '');
+            setMcpStatus('idle');
         }
     }, [isOpen]);
 
+    const selectedProfile = profiles.find(p => p.id === selectedProfileId) || profiles[0];
+
+    const updateSelectedProfile = (changes: Partial<ModelProfile>) => {
+        setProfiles(prev => prev.map(p => p.id === selectedProfile?.id ? { ...p, ...changes } : p));
+    };
+
+    // Ask the local server for its models; fills in the model name if none was chosen yet
+    const discoverModels = async (profile: ModelProfile) => {
+        setDiscoveryStatus('loading');
+        setDiscoveryError('');
+        try {
+            const models = await listModels(profile.baseURL || PROVIDER_DEFAULTS.local.baseURL, profile.apiKey || undefined);
+            setDiscoveredModels(models);
+            setDiscoveryStatus('idle');
+            if (!profile.model && models.length > 0) {
+                setProfiles(prev => prev.map(p => p.id === profile.id ? { ...p, model: models[0] } : p));
+            }
+        } catch (error: any) {
+            setDiscoveredModels([]);
+            setDiscoveryStatus('error');
+            setDiscoveryError(error.message || 'Could not reach the server.');
+        }
+    };
+
+    useEffect(() => {
+        setDiscoveredModels([]);
+        setDiscoveryStatus('idle');
+        if (isOpen && selectedProfile?.provider === 'local') {
+            discoverModels(selectedProfile);
+        }
+    }, [isOpen, selectedProfile?.id, selectedProfile?.provider]);
+
+    const handleAddProfile = () => {
+        const profile = createProfile({ name: `Profile ${profiles.length + 1}` });
+        setProfiles(prev => [...prev, profile]);
+        setSelectedProfileId(profile.id);
+    };
+
+    const handleDeleteProfile = () => {
+        if (!selectedProfile || profiles.length <= 1) return;
+        const remaining = profiles.filter(p => p.id !== selectedProfile.id);
+        setProfiles(remaining);
+        setSelectedProfileId(remaining[0].id);
+        if (defaultProfileId === selectedProfile.id) {
+            setDefaultProfileId(remaining[0].id);
+        }
+    };
+
+    const updatePrice = (index: number, changes: Partial<ModelPrice>) => {
+        setPrices(prev => prev.map((price, i) => i === index ? { ...price, ...changes } : price));
+    };
+
+    // Start a row for every profile model that has no price yet
+    const handleAddPrice = () => {
+        const priced = new Set(prices.map(p => p.model));
+        const missing = [...new Set(profiles.map(p => p.model || PROVIDER_DEFAULTS[p.provider].model))]
+            .filter(model => model && !priced.has(model));
+        const models = missing.length > 0 ? missing : [''];
+        setPrices(prev => [...prev, ...models.map(model => ({ model, inputPerMillion: 0, outputPerMillion: 0 }))]);
+    };
+
+    const selectedPreset = presets.find(p => p.id === selectedPresetId) || presets[0];
+
+    const updateSelectedPreset = (changes: Partial<PromptPreset>) => {
+        setPresets(prev => prev.map(p => p.id === selectedPreset?.id ? { ...p, ...changes } : p));
+    };
+
+    const handleAddPreset = () => {
+        const preset: PromptPreset = { id: createPresetId(), name: `Preset ${presets.length + 1}`, template: '' };
+        setPresets(prev => [...prev, preset]);
+        setSelectedPresetId(preset.id);
+    };
+
+    // Nodes that used a deleted preset fall back to the canvas default
+    const handleDeletePreset = () => {
+        if (!selectedPreset || presets.length <= 1) return;
+        const remaining = presets.filter(p => p.id !== selectedPreset.id);
+        setPresets(remaining);
+        setSelectedPresetId(remaining[0].id);
+        if (canvasPreset === selectedPreset.id) setCanvasPreset(undefined);
+    };
+
+    const presetName = (presetId: string) =>
+        (presets.find(p => p.id === presetId) || BUILT_IN_PRESETS.find(p => p.id === presetId))?.name;
+
+    const handleResetPreset = () => {
+        const builtIn = BUILT_IN_PRESETS.find(p => p.id === selectedPreset?.id);
+        if (builtIn) updateSelectedPreset({ name: builtIn.name, template: builtIn.template });
+    };
+
+    const selectedServer = mcpServers.find(s => s.id === selectedServerId) || mcpServers[0];
+
+    const updateSelectedServer = (changes: Partial<McpServerConfig>) => {
+        setMcpServers(prev => prev.map(s => s.id === selectedServer?.id ? { ...s, ...changes } : s));
+    };
+
+    const handleAddServer = () => {
+        const server: McpServerConfig = {
+            id: createMcpServerId(),
+            name: `Server ${mcpServers.length + 1}`,
+            url: '',
+            transport: 'http',
+            enabled: true
+        };
+        setMcpServers(prev => [...prev, server]);
+        setSelectedServerId(server.id);
+        setMcpStatus('idle');
+    };
+
+    const handleDeleteServer = () => {
+        if (!selectedServer) return;
+        const remaining = mcpServers.filter(s => s.id !== selectedServer.id);
+        setMcpServers(remaining);
+        setSelectedServerId(remaining[0]?.id || '');
+        setMcpStatus('idle');
+    };
+
+    // Connects with the unsaved settings; the tool list is saved with the server
+    const handleConnectServer = async (server: McpServerConfig) => {
+        setMcpStatus('loading');
+        setMcpError('');
+        try {
+            const tools: McpToolInfo[] = await listMcpTools({ ...server, url: server.url.trim(), authToken: server.authToken?.trim() || undefined });
+            setMcpServers(prev => prev.map(s => s.id === server.id ? { ...s, tools } : s));
+            setMcpStatus('idle');
+        } catch (error: any) {
+            setMcpStatus('error');
+            setMcpError(error.message || 'Could not reach the server.');
+        }
+    };
+
     const handleSave = () => {
-        localStorage.setItem('gemini_api_key', apiKey.trim());
-        localStorage.setItem('gemini_model_name', modelName.trim());
-        localStorage.setItem('gemini_api_url', apiUrl.trim());
-        localStorage.setItem('serper_api_key', searchApiKey.trim());
-        localStorage.setItem('tavily_api_key', tavilyApiKey.trim());
+        saveProfiles(
+            profiles.map(p => ({
+                ...p,
+                name: p.name.trim() || 'Untitled',
+                apiKey: p.apiKey.trim(),
+                baseURL: p.baseURL.trim(),
+                model: p.model.trim()
+            })),
+            defaultProfileId
+        );
+        SEARCH_PROVIDER_TYPES.forEach(type =>
+            localStorage.setItem(SEARCH_PROVIDERS[type].storageKey, (searchKeys[type] || '').trim()));
+        setPreferredSearchProvider(searchProvider);
+        localStorage.setItem('include_reasoning_in_context', String(includeReasoning));
+        setContextStrategy(contextStrategy);
+        setMaxToolRounds(Math.max(1, maxToolRounds || DEFAULT_MAX_TOOL_ROUNDS));
+        setResearchDepth({
+            breadth: Math.max(1, researchDepth.breadth || DEFAULT_RESEARCH_DEPTH.breadth),
+            rounds: Math.max(1, researchDepth.rounds || DEFAULT_RESEARCH_DEPTH.rounds)
+        });
+        setReadFullPages(readFullPages);
+        setVerifyCitations(verifyCitations);
+        setCacheTtlHours(Math.max(0, cacheTtlHours || 0));
+        savePrices(prices
+            .map(p => ({ ...p, model: p.model.trim() }))
+            .filter(p => p.model));
+        onPricesChange();
+        savePresets(presets.map(p => ({ ...p, name: p.name.trim() || 'Untitled' })));
+        onCanvasPresetChange(canvasPreset);
+        saveMcpServers(mcpServers.map(s => ({
+            ...s,
+            name: s.name.trim() || 'Untitled',
+            url: s.url.trim(),
+            authToken: s.authToken?.trim() || undefined
+        })));
         onClose();
     };
 
@@ -75,6 +288,36 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
                         <Globe className="w-4 h-4" />
                         Search Configuration
                     </button>
+                    <button
+                        onClick={() => setActiveTab('pricing')}
+                        className={`flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors text-left ${activeTab === 'pricing'
+                            ? 'bg-white text-blue-600 shadow-sm border border-slate-200'
+                            : 'text-slate-600 hover:bg-slate-100 hover:text-slate-900'
+                            }`}
+                    >
+                        <DollarSign className="w-4 h-4" />
+                        Model Pricing
+                    </button>
+                    <button
+                        onClick={() => setActiveTab('prompts')}
+                        className={`flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors text-left ${activeTab === 'prompts'
+                            ? 'bg-white text-blue-600 shadow-sm border border-slate-200'
+                            : 'text-slate-600 hover:bg-slate-100 hover:text-slate-900'
+                            }`}
+                    >
+                        <UserCog className="w-4 h-4" />
+                        Prompt Presets
+                    </button>
+                    <button
+                        onClick={() => setActiveTab('mcp')}
+                        className={`flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors text-left ${activeTab === 'mcp'
+                            ? 'bg-white text-blue-600 shadow-sm border border-slate-200'
+                            : 'text-slate-600 hover:bg-slate-100 hover:text-slate-900'
+                            }`}
+                    >
+                        <Plug className="w-4 h-4" />
+                        MCP Servers
+                    </button>
                 </div>
 
                 {/* Content Area */}
@@ -84,6 +327,9 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
                         <h2 className="text-lg font-semibold text-slate-800">
                             {activeTab === 'model' && 'Model Configuration'}
                             {activeTab === 'search' && 'Search Configuration'}
+                            {activeTab === 'pricing' && 'Model Pricing'}
+                            {activeTab === 'prompts' && 'Prompt Presets'}
+                            {activeTab === 'mcp' && 'MCP Servers'}
                         </h2>
                         <button
                             onClick={onClose}
@@ -95,21 +341,88 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
 
                     {/* Body */}
                     <div className="flex-1 p-6 overflow-y-auto">
-                        {activeTab === 'model' && (
+                        {activeTab === 'model' && selectedProfile && (
                             <div className="space-y-6">
+                                {/* Profile List */}
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        Profiles
+                                    </label>
+                                    <div className="text-xs text-slate-500 mb-2 leading-relaxed">
+                                        Save several models (e.g. a cheap one for branching questions and a strong one for synthesis) and pick one per node.
+                                    </div>
+                                    <div className="flex flex-wrap gap-2">
+                                        {profiles.map(profile => (
+                                            <button
+                                                key={profile.id}
+                                                onClick={() => setSelectedProfileId(profile.id)}
+                                                className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${profile.id === selectedProfile.id
+                                                    ? 'bg-blue-50 text-blue-600 border-blue-200'
+                                                    : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                                                    }`}
+                                            >
+                                                {profile.id === defaultProfileId && <Star className="w-3 h-3 fill-current" />}
+                                                {profile.name || 'Untitled'}
+                                            </button>
+                                        ))}
+                                        <button
+                                            onClick={handleAddProfile}
+                                            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border border-dashed border-slate-300 text-slate-500 hover:text-blue-600 hover:border-blue-300 transition-colors"
+                                        >
+                                            <Plus className="w-3 h-3" />
+                                            Add
+                                        </button>
+                                    </div>
+                                </div>
+
+                                {/* Profile Name */}
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        Profile Name
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={selectedProfile.name}
+                                        onChange={(e) => updateSelectedProfile({ name: e.target.value })}
+                                        placeholder="e.g. Fast, Deep Synthesis"
+                                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                    />
+                                </div>
+
+                                {/* Provider */}
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        Provider
+                                    </label>
+                                    <div className="text-xs text-slate-500 mb-2 leading-relaxed">
+                                        Anthropic and Gemini are called through their native APIs, so reasoning and online search use each provider's own thinking and grounding features.
+                                    </div>
+                                    <select
+                                        value={selectedProfile.provider}
+                                        onChange={(e) => updateSelectedProfile({ provider: e.target.value as ProviderType })}
+                                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                    >
+                                        {(Object.keys(PROVIDER_DEFAULTS) as ProviderType[]).map(provider => (
+                                            <option key={provider} value={provider}>{PROVIDER_DEFAULTS[provider].label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
                                 {/* API Key */}
                                 <div>
                                     <label className="block text-sm font-medium text-slate-700 mb-1">
                                         API Key
                                     </label>
                                     <div className="text-xs text-slate-500 mb-2 leading-relaxed">
-                                        Required for authentication. If using the official Gemini API, get your key from Google AI Studio.
+                                        {PROVIDER_CAPABILITIES[selectedProfile.provider].requiresApiKey
+                                            ? 'Required for authentication. If using the official Gemini API, get your key from Google AI Studio.'
+                                            : 'Optional. Local servers usually run without a key.'}
                                     </div>
                                     <input
                                         type="password"
-                                        value={apiKey}
-                                        onChange={(e) => setApiKey(e.target.value)}
-                                        placeholder={import.meta.env.VITE_GEMINI_API_KEY ? `Using .env: ${import.meta.env.VITE_GEMINI_API_KEY.slice(0, 8)}...` : "Enter your API Key"}
+                                        value={selectedProfile.apiKey}
+                                        onChange={(e) => updateSelectedProfile({ apiKey: e.target.value })}
+                                        placeholder={selectedProfile.provider === 'openai' && import.meta.env.VITE_GEMINI_API_KEY ? `Using .env: ${import.meta.env.VITE_GEMINI_API_KEY.slice(0, 8)}...` : "Enter your API Key"}
                                         className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
                                     />
                                 </div>
@@ -121,13 +434,13 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
                                     </label>
                                     <div className="text-xs text-slate-500 mb-2 leading-relaxed">
                                         Optional override for the API endpoint (e.g., if using a proxy).
-                                        Leave blank to use the default Google GenAI endpoint.
+                                        Leave blank to use the provider's default endpoint.
                                     </div>
                                     <input
                                         type="text"
-                                        value={apiUrl}
-                                        onChange={(e) => setApiUrl(e.target.value)}
-                                        placeholder={import.meta.env.VITE_GEMINI_API_URL || "https://generativelanguage.googleapis.com"}
+                                        value={selectedProfile.baseURL}
+                                        onChange={(e) => updateSelectedProfile({ baseURL: e.target.value })}
+                                        placeholder={(selectedProfile.provider === 'openai' && import.meta.env.VITE_GEMINI_API_URL) || PROVIDER_DEFAULTS[selectedProfile.provider].baseURL || "https://generativelanguage.googleapis.com"}
                                         className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
                                     />
                                 </div>
@@ -140,50 +453,619 @@ export const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
                                     <div className="text-xs text-slate-500 mb-2 leading-relaxed">
                                         The specific model version to use for generation.
                                     </div>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={selectedProfile.model}
+                                            onChange={(e) => updateSelectedProfile({ model: e.target.value })}
+                                            list={selectedProfile.provider === 'local' ? 'discovered-models' : undefined}
+                                            placeholder={(selectedProfile.provider === 'openai' && import.meta.env.VITE_GEMINI_MODEL_NAME) || PROVIDER_DEFAULTS[selectedProfile.provider].model || 'Pick a discovered model'}
+                                            className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                        />
+                                        {selectedProfile.provider === 'local' && (
+                                            <button
+                                                onClick={() => discoverModels(selectedProfile)}
+                                                disabled={discoveryStatus === 'loading'}
+                                                className="px-3 py-2 text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg transition-colors disabled:opacity-50"
+                                                title="Discover models from the server"
+                                            >
+                                                <RefreshCw className={`w-4 h-4 ${discoveryStatus === 'loading' ? 'animate-spin' : ''}`} />
+                                            </button>
+                                        )}
+                                    </div>
+                                    {selectedProfile.provider === 'local' && (
+                                        <>
+                                            <datalist id="discovered-models">
+                                                {discoveredModels.map(model => <option key={model} value={model} />)}
+                                            </datalist>
+                                            <div className={`text-xs mt-1 ${discoveryStatus === 'error' ? 'text-red-500' : 'text-slate-400'}`}>
+                                                {discoveryStatus === 'loading' && 'Discovering models...'}
+                                                {discoveryStatus === 'error' && `Model discovery failed: ${discoveryError}`}
+                                                {discoveryStatus === 'idle' && `${discoveredModels.length} model${discoveredModels.length !== 1 ? 's' : ''} found on the server. Tools, online search and reasoning are disabled for local models.`}
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+
+                                {/* Context Window */}
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        Context Window (tokens)
+                                    </label>
+                                    <div className="text-xs text-slate-500 mb-2 leading-relaxed">
+                                        Leave empty to use the size known for this model. Long branches are shortened to fit.
+                                    </div>
                                     <input
-                                        type="text"
-                                        value={modelName}
-                                        onChange={(e) => setModelName(e.target.value)}
-                                        placeholder={import.meta.env.VITE_GEMINI_MODEL_NAME || "gemini-1.5-flash"}
+                                        type="number"
+                                        min={1024}
+                                        step={1024}
+                                        value={selectedProfile.contextWindow ?? ''}
+                                        onChange={(e) => updateSelectedProfile({ contextWindow: parseInt(e.target.value) || undefined })}
+                                        placeholder={`Auto (${(detectContextWindow(selectedProfile.model || PROVIDER_DEFAULTS[selectedProfile.provider].model) || DEFAULT_CONTEXT_WINDOW).toLocaleString()})`}
                                         className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
                                     />
                                 </div>
+
+                                {/* Default Reasoning Mode */}
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        Default Reasoning Mode
+                                    </label>
+                                    <div className="text-xs text-slate-500 mb-2 leading-relaxed">
+                                        Applied to a node when this profile is picked for it.
+                                    </div>
+                                    <select
+                                        value={selectedProfile.reasoningMode}
+                                        onChange={(e) => updateSelectedProfile({ reasoningMode: e.target.value as ReasoningMode })}
+                                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800 capitalize"
+                                    >
+                                        {(['off', 'auto', 'light', 'medium', 'heavy'] as const).map(mode => (
+                                            <option key={mode} value={mode}>{mode}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                {/* Profile Actions */}
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => setDefaultProfileId(selectedProfile.id)}
+                                        disabled={selectedProfile.id === defaultProfileId}
+                                        className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        <Star className="w-3 h-3" />
+                                        {selectedProfile.id === defaultProfileId ? 'Default Profile' : 'Set as Default'}
+                                    </button>
+                                    <button
+                                        onClick={handleDeleteProfile}
+                                        disabled={profiles.length <= 1}
+                                        className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-red-600 bg-white border border-slate-200 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        <Trash2 className="w-3 h-3" />
+                                        Delete Profile
+                                    </button>
+                                </div>
+
+                                {/* Context building (applies to all profiles) */}
+                                <div className="pt-4 border-t border-slate-100">
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        When a Branch Exceeds the Context Window
+                                    </label>
+                                    <div className="text-xs text-slate-500 mb-2 leading-relaxed">
+                                        {CONTEXT_STRATEGIES[contextStrategy].description}
+                                    </div>
+                                    <select
+                                        value={contextStrategy}
+                                        onChange={(e) => setContextStrategyState(e.target.value as ContextStrategy)}
+                                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                    >
+                                        {(Object.keys(CONTEXT_STRATEGIES) as ContextStrategy[]).map(strategy => (
+                                            <option key={strategy} value={strategy}>{CONTEXT_STRATEGIES[strategy].label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        Max Tool Rounds
+                                    </label>
+                                    <div className="text-xs text-slate-500 mb-2 leading-relaxed">
+                                        How many times a chat node may call tools and read the results before it has to answer.
+                                    </div>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={20}
+                                        value={maxToolRounds}
+                                        onChange={(e) => setMaxToolRoundsState(parseInt(e.target.value, 10) || 0)}
+                                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                    />
+                                </div>
+
+                                <div>
+                                    <label className="flex items-start gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={includeReasoning}
+                                            onChange={(e) => setIncludeReasoning(e.target.checked)}
+                                            className="mt-0.5 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                        />
+                                        <span>
+                                            Include thinking in follow-up context
+                                            <span className="block text-xs font-normal text-slate-500 mt-1 leading-relaxed">
+                                                Sends the saved thinking of ancestor nodes along with their answers. Off by default to save tokens.
+                                            </span>
+                                        </span>
+                                    </label>
+                                </div>
                             </div>
                         )}
 
-                        {activeTab === 'search' && (
+                        {activeTab === 'pricing' && (
+                            <div className="space-y-4">
+                                <div className="text-xs text-slate-500 leading-relaxed">
+                                    Prices in USD per 1M tokens, used to show what nodes, branches and canvases cost.
+                                    A row also matches longer model names reported by the provider (e.g. <code>gemini-2.5-flash</code> matches <code>google/gemini-2.5-flash-001</code>).
+                                </div>
+
+                                {prices.length > 0 && (
+                                    <div className="space-y-2">
+                                        <div className="grid grid-cols-[1fr_88px_88px_28px] gap-2 text-xs font-medium text-slate-500 px-1">
+                                            <span>Model</span>
+                                            <span>Input $/1M</span>
+                                            <span>Output $/1M</span>
+                                            <span />
+                                        </div>
+                                        {prices.map((price, index) => (
+                                            <div key={index} className="grid grid-cols-[1fr_88px_88px_28px] gap-2 items-center">
+                                                <input
+                                                    type="text"
+                                                    value={price.model}
+                                                    onChange={(e) => updatePrice(index, { model: e.target.value })}
+                                                    placeholder="Model name"
+                                                    className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                                />
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    step="0.01"
+                                                    value={price.inputPerMillion}
+                                                    onChange={(e) => updatePrice(index, { inputPerMillion: parseFloat(e.target.value) || 0 })}
+                                                    className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                                />
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    step="0.01"
+                                                    value={price.outputPerMillion}
+                                                    onChange={(e) => updatePrice(index, { outputPerMillion: parseFloat(e.target.value) || 0 })}
+                                                    className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                                />
+                                                <button
+                                                    onClick={() => setPrices(prev => prev.filter((_, i) => i !== index))}
+                                                    className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+                                                    title="Remove price"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                <button
+                                    onClick={handleAddPrice}
+                                    className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+                                >
+                                    <Plus className="w-3 h-3" />
+                                    Add Price
+                                </button>
+                            </div>
+                        )}
+
+                        {activeTab === 'prompts' && selectedPreset && (
                             <div className="space-y-6">
+                                {/* Canvas default */}
                                 <div>
                                     <label className="block text-sm font-medium text-slate-700 mb-1">
-                                        Serper API Key
+                                        Default for This Canvas
                                     </label>
                                     <div className="text-xs text-slate-500 mb-2 leading-relaxed">
-                                        Get a free API key from <a href="https://serper.dev" target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">serper.dev</a> to enable real-time Google Search.
-                                        This simulates an "internet connection" for the AI.
+                                        Used by nodes on the current canvas that don't pick their own preset. Branches inherit the preset of the node they come from.
                                     </div>
+                                    <select
+                                        value={canvasPreset || ''}
+                                        onChange={(e) => setCanvasPreset(e.target.value || undefined)}
+                                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                    >
+                                        <option value="">Built-in defaults (chat: {presetName(DEFAULT_CHAT_PRESET_ID)}, research: {presetName(DEFAULT_RESEARCH_PRESET_ID)})</option>
+                                        {presets.map(preset => (
+                                            <option key={preset.id} value={preset.id}>{preset.name || 'Untitled'}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                {/* Preset List */}
+                                <div className="pt-4 border-t border-slate-100">
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        Presets
+                                    </label>
+                                    <div className="flex flex-wrap gap-2">
+                                        {presets.map(preset => (
+                                            <button
+                                                key={preset.id}
+                                                onClick={() => setSelectedPresetId(preset.id)}
+                                                className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${preset.id === selectedPreset.id
+                                                    ? 'bg-blue-50 text-blue-600 border-blue-200'
+                                                    : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                                                    }`}
+                                            >
+                                                {preset.id === canvasPreset && <Star className="w-3 h-3 fill-current" />}
+                                                {preset.name || 'Untitled'}
+                                            </button>
+                                        ))}
+                                        <button
+                                            onClick={handleAddPreset}
+                                            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border border-dashed border-slate-300 text-slate-500 hover:text-blue-600 hover:border-blue-300 transition-colors"
+                                        >
+                                            <Plus className="w-3 h-3" />
+                                            Add
+                                        </button>
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        Preset Name
+                                    </label>
                                     <input
-                                        type="password"
-                                        value={searchApiKey}
-                                        onChange={(e) => setSearchApiKey(e.target.value)}
-                                        placeholder={import.meta.env.VITE_SERPER_API_KEY ? `Using .env: ${import.meta.env.VITE_SERPER_API_KEY.slice(0, 8)}...` : "Enter Serper API Key (e.g., a1b2c3...)"}
+                                        type="text"
+                                        value={selectedPreset.name}
+                                        onChange={(e) => updateSelectedPreset({ name: e.target.value })}
+                                        placeholder="e.g. Code Reviewer, Socratic Tutor"
                                         className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
                                     />
                                 </div>
 
                                 <div>
                                     <label className="block text-sm font-medium text-slate-700 mb-1">
-                                        Tavily API Key
+                                        System Prompt
                                     </label>
                                     <div className="text-xs text-slate-500 mb-2 leading-relaxed">
-                                        Required for Deep Research. Get a free key from <a href="https://tavily.com" target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">tavily.com</a>.
+                                        For research nodes this opens the synthesis prompt; the sources and citation rules are added after it.
                                     </div>
-                                    <input
-                                        type="password"
-                                        value={tavilyApiKey}
-                                        onChange={(e) => setTavilyApiKey(e.target.value)}
-                                        placeholder={import.meta.env.VITE_TAVILY_API_KEY ? `Using .env: ${import.meta.env.VITE_TAVILY_API_KEY.slice(0, 8)}...` : "Enter Tavily API Key"}
-                                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                    <textarea
+                                        value={selectedPreset.template}
+                                        onChange={(e) => updateSelectedPreset({ template: e.target.value })}
+                                        rows={8}
+                                        placeholder="You are..."
+                                        className="w-full resize-y bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
                                     />
+                                    <div className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+                                        {PROMPT_VARIABLES.map(variable => (
+                                            <React.Fragment key={variable.name}>
+                                                <code className="text-blue-600">{`{{${variable.name}}}`}</code>
+                                                <span className="text-slate-500">{variable.description}</span>
+                                            </React.Fragment>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                {/* Preset Actions */}
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => setCanvasPreset(selectedPreset.id)}
+                                        disabled={selectedPreset.id === canvasPreset}
+                                        className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        <Star className="w-3 h-3" />
+                                        {selectedPreset.id === canvasPreset ? 'Canvas Default' : 'Use for This Canvas'}
+                                    </button>
+                                    {BUILT_IN_PRESETS.some(p => p.id === selectedPreset.id) && (
+                                        <button
+                                            onClick={handleResetPreset}
+                                            className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg transition-colors"
+                                        >
+                                            <RefreshCw className="w-3 h-3" />
+                                            Reset to Built-in
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={handleDeletePreset}
+                                        disabled={presets.length <= 1}
+                                        className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-red-600 bg-white border border-slate-200 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        <Trash2 className="w-3 h-3" />
+                                        Delete Preset
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        {activeTab === 'mcp' && (
+                            <div className="space-y-6">
+                                {/* Server List */}
+                                <div>
+                                    <div className="text-xs text-slate-500 mb-2 leading-relaxed">
+                                        Tools of enabled servers show up in each chat node's tools menu. The browser connects directly, so the server has to allow cross-origin requests from this page.
+                                    </div>
+                                    <div className="flex flex-wrap gap-2">
+                                        {mcpServers.map(server => (
+                                            <button
+                                                key={server.id}
+                                                onClick={() => {
+                                                    setSelectedServerId(server.id);
+                                                    setMcpStatus('idle');
+                                                }}
+                                                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${server.id === selectedServer?.id
+                                                    ? 'bg-blue-50 text-blue-600 border-blue-200'
+                                                    : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                                                    }`}
+                                            >
+                                                <span className={`w-1.5 h-1.5 rounded-full ${server.enabled ? 'bg-emerald-400' : 'bg-slate-300'}`} />
+                                                {server.name || 'Untitled'}
+                                            </button>
+                                        ))}
+                                        <button
+                                            onClick={handleAddServer}
+                                            className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border border-dashed border-slate-300 text-slate-500 hover:text-blue-600 hover:border-blue-300 transition-colors"
+                                        >
+                                            <Plus className="w-3 h-3" />
+                                            Add Server
+                                        </button>
+                                    </div>
+                                </div>
+
+                                {selectedServer && (
+                                    <>
+                                        <div className="grid grid-cols-2 gap-4">
+                                            <div>
+                                                <label className="block text-sm font-medium text-slate-700 mb-1">
+                                                    Name
+                                                </label>
+                                                <input
+                                                    type="text"
+                                                    value={selectedServer.name}
+                                                    onChange={(e) => updateSelectedServer({ name: e.target.value })}
+                                                    placeholder="e.g. Internal Docs"
+                                                    className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-slate-700 mb-1">
+                                                    Transport
+                                                </label>
+                                                <select
+                                                    value={selectedServer.transport}
+                                                    onChange={(e) => updateSelectedServer({ transport: e.target.value as McpServerConfig['transport'] })}
+                                                    className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                                >
+                                                    <option value="http">Streamable HTTP</option>
+                                                    <option value="sse">HTTP + SSE (legacy)</option>
+                                                </select>
+                                            </div>
+                                        </div>
+
+                                        <div>
+                                            <label className="block text-sm font-medium text-slate-700 mb-1">
+                                                Server URL
+                                            </label>
+                                            <div className="flex gap-2">
+                                                <input
+                                                    type="text"
+                                                    value={selectedServer.url}
+                                                    onChange={(e) => updateSelectedServer({ url: e.target.value })}
+                                                    placeholder={selectedServer.transport === 'sse' ? 'http://localhost:3001/sse' : 'http://localhost:3001/mcp'}
+                                                    className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800 font-mono"
+                                                />
+                                                <button
+                                                    onClick={() => handleConnectServer(selectedServer)}
+                                                    disabled={mcpStatus === 'loading' || !selectedServer.url.trim()}
+                                                    className="flex items-center gap-1 px-3 py-2 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg transition-colors disabled:opacity-50"
+                                                    title="Connect and list the server's tools"
+                                                >
+                                                    <RefreshCw className={`w-4 h-4 ${mcpStatus === 'loading' ? 'animate-spin' : ''}`} />
+                                                    Connect
+                                                </button>
+                                            </div>
+                                            <div className={`text-xs mt-1 ${mcpStatus === 'error' ? 'text-red-500' : 'text-slate-400'}`}>
+                                                {mcpStatus === 'loading' && 'Connecting...'}
+                                                {mcpStatus === 'error' && `Connection failed: ${mcpError}`}
+                                                {mcpStatus === 'idle' && (selectedServer.tools
+                                                    ? `${selectedServer.tools.length} tool${selectedServer.tools.length !== 1 ? 's' : ''} available.`
+                                                    : 'Connect once to load the tool list.')}
+                                            </div>
+                                        </div>
+
+                                        <div>
+                                            <label className="block text-sm font-medium text-slate-700 mb-1">
+                                                Bearer Token <span className="font-normal text-slate-400">(optional)</span>
+                                            </label>
+                                            <input
+                                                type="password"
+                                                value={selectedServer.authToken || ''}
+                                                onChange={(e) => updateSelectedServer({ authToken: e.target.value })}
+                                                placeholder="Sent as Authorization: Bearer ..."
+                                                className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                            />
+                                        </div>
+
+                                        {selectedServer.tools && selectedServer.tools.length > 0 && (
+                                            <div>
+                                                <label className="block text-sm font-medium text-slate-700 mb-1">
+                                                    Tools
+                                                </label>
+                                                <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-48 overflow-y-auto">
+                                                    {selectedServer.tools.map(tool => (
+                                                        <div key={tool.name} className="px-3 py-1.5">
+                                                            <div className="text-xs font-mono font-medium text-slate-700">{tool.name}</div>
+                                                            {tool.description && <div className="text-xs text-slate-500 line-clamp-2">{tool.description}</div>}
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        )}
+
+                                        <div className="flex items-center justify-between">
+                                            <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selectedServer.enabled}
+                                                    onChange={(e) => updateSelectedServer({ enabled: e.target.checked })}
+                                                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                                />
+                                                Enabled
+                                            </label>
+                                            <button
+                                                onClick={handleDeleteServer}
+                                                className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-red-600 bg-white border border-slate-200 hover:bg-red-50 rounded-lg transition-colors"
+                                            >
+                                                <Trash2 className="w-3 h-3" />
+                                                Delete Server
+                                            </button>
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                        )}
+
+                        {activeTab === 'search' && (
+                            <div className="space-y-6">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        Search Provider
+                                    </label>
+                                    <div className="text-xs text-slate-500 mb-2 leading-relaxed">
+                                        Used for online search in chat nodes and for Deep Research. If it has no key, the first provider below that has one is used instead.
+                                    </div>
+                                    <select
+                                        value={searchProvider}
+                                        onChange={(e) => setSearchProvider(e.target.value as SearchProviderType)}
+                                        className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                    >
+                                        {SEARCH_PROVIDER_TYPES.map(type => (
+                                            <option key={type} value={type}>{SEARCH_PROVIDERS[type].label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                {SEARCH_PROVIDER_TYPES.map(type => {
+                                    const provider = SEARCH_PROVIDERS[type];
+                                    return (
+                                        <div key={type} className={type === SEARCH_PROVIDER_TYPES[0] ? 'pt-4 border-t border-slate-100' : ''}>
+                                            <label className="block text-sm font-medium text-slate-700 mb-1">
+                                                {provider.label} {type === 'searxng' ? 'Instance URL' : 'API Key'}
+                                            </label>
+                                            <div className="text-xs text-slate-500 mb-2 leading-relaxed">
+                                                {provider.description}
+                                            </div>
+                                            <input
+                                                type={type === 'searxng' ? 'text' : 'password'}
+                                                value={searchKeys[type] || ''}
+                                                onChange={(e) => setSearchKeys(prev => ({ ...prev, [type]: e.target.value }))}
+                                                placeholder={provider.envValue ? `Using .env: ${provider.envValue.slice(0, 8)}...` : provider.placeholder}
+                                                className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                            />
+                                        </div>
+                                    );
+                                })}
+
+                                <div className="pt-4 border-t border-slate-100">
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        Deep Research Depth
+                                    </label>
+                                    <div className="text-xs text-slate-500 mb-2 leading-relaxed">
+                                        Queries searched per round, and how many rounds a research node may run. After each round the model looks for gaps in the sources and searches again, stopping early when nothing is missing.
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <label className="text-xs text-slate-500">
+                                            Queries per round
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                max={10}
+                                                value={researchDepth.breadth}
+                                                onChange={(e) => setResearchDepthState(prev => ({ ...prev, breadth: parseInt(e.target.value, 10) || 0 }))}
+                                                className="mt-1 w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                            />
+                                        </label>
+                                        <label className="text-xs text-slate-500">
+                                            Rounds
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                max={10}
+                                                value={researchDepth.rounds}
+                                                onChange={(e) => setResearchDepthState(prev => ({ ...prev, rounds: parseInt(e.target.value, 10) || 0 }))}
+                                                className="mt-1 w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                            />
+                                        </label>
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <label className="flex items-start gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={readFullPages}
+                                            onChange={(e) => setReadFullPagesState(e.target.checked)}
+                                            className="mt-0.5 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                        />
+                                        <span>
+                                            Read full pages in Deep Research
+                                            <span className="block text-xs font-normal text-slate-500 mt-1 leading-relaxed">
+                                                Reads each source's whole page and answers from its passages most relevant to the question instead of the search snippet. Tavily returns the pages with the results; other providers' pages are loaded from the browser, which fails for sites that block cross-origin requests. Uses more tokens.
+                                            </span>
+                                        </span>
+                                    </label>
+                                </div>
+
+                                <div>
+                                    <label className="flex items-start gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={verifyCitations}
+                                            onChange={(e) => setVerifyCitationsState(e.target.checked)}
+                                            className="mt-0.5 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                        />
+                                        <span>
+                                            Verify research citations
+                                            <span className="block text-xs font-normal text-slate-500 mt-1 leading-relaxed">
+                                                After the answer is written, asks the model whether each cited source supports its sentence and marks the claims it doesn't. Citations of sources that don't exist are always flagged. One extra call per research run.
+                                            </span>
+                                        </span>
+                                    </label>
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                                        Research Cache (hours)
+                                    </label>
+                                    <div className="text-xs text-slate-500 mb-2 leading-relaxed">
+                                        How long search responses and generated queries are kept in this browser, so re-running a question doesn't search again. 0 turns the cache off.
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={cacheTtlHours}
+                                            onChange={(e) => setCacheTtlHoursState(parseFloat(e.target.value) || 0)}
+                                            className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-slate-800"
+                                        />
+                                        <button
+                                            onClick={async () => {
+                                                try {
+                                                    await clearCache();
+                                                    setCachedCount(0);
+                                                } catch (error) {
+                                                    console.error('Failed to clear the research cache:', error);
+                                                }
+                                            }}
+                                            disabled={!cachedCount}
+                                            className="px-3 py-2 text-sm text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 disabled:opacity-50 transition-colors"
+                                        >
+                                            Clear{cachedCount ? ` ${cachedCount} entries` : ''}
+                                        </button>
+                                    </div>
                                 </div>
                             </div>
                         )}
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Wrench, Loader2, Check, AlertCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { ToolCallRecord } from '../types';
+import { parseToolArguments } from '../services/llm';
+import { getTool } from '../services/tools';
+
+interface ToolCallListProps {
+    calls: ToolCallRecord[];
+    isGenerating: boolean;
+}
+
+// One line per argument value, e.g. `query: "rust async"`
+const formatArguments = (raw: string) =>
+    Object.entries(parseToolArguments(raw))
+        .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+        .join(', ');
+
+const StatusIcon = ({ status }: { status: ToolCallRecord['status'] }) => {
+    if (status === 'running') return <Loader2 className="w-3 h-3 text-blue-500 animate-spin shrink-0" />;
+    if (status === 'error') return <AlertCircle className="w-3 h-3 text-red-500 shrink-0" />;
+    return <Check className="w-3 h-3 text-emerald-500 shrink-0" />;
+};
+
+export const ToolCallList = ({ calls, isGenerating }: ToolCallListProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    if (calls.length === 0) return null;
+
+    const rounds = Math.max(...calls.map(call => call.round));
+    const running = calls.some(call => call.status === 'running');
+    // MCP tools are labelled with their server
+    const groups = Object.fromEntries(calls.map(call => [call.name, getTool(call.name)?.group]));
+    // Keep the list open while tools are running so progress is visible
+    const showCalls = isOpen || (isGenerating && running);
+
+    return (
+        <div className="mb-3 border border-slate-200 rounded-lg bg-white/60">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between px-3 py-1.5 text-[10px] font-medium text-slate-500 hover:text-slate-800 transition-colors nodrag"
+            >
+                <span className="flex items-center gap-1.5">
+                    <Wrench className={`w-3 h-3 text-amber-500 ${running ? 'animate-pulse' : ''}`} />
+                    {calls.length} tool call{calls.length === 1 ? '' : 's'}
+                    {rounds > 1 && <span className="text-slate-400">in {rounds} rounds</span>}
+                </span>
+                {showCalls ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            </button>
+            {showCalls && (
+                <div className="px-2 pb-2 flex flex-col gap-1 text-[10px] nodrag nowheel">
+                    {calls.map(call => (
+                        <div key={call.id} className="rounded-md border border-slate-100 bg-white">
+                            <button
+                                onClick={() => setExpandedId(expandedId === call.id ? null : call.id)}
+                                disabled={!call.result}
+                                className="w-full flex items-center gap-1.5 px-2 py-1 text-left disabled:cursor-default"
+                                title={call.result ? 'Show result' : undefined}
+                            >
+                                <StatusIcon status={call.status} />
+                                {groups[call.name] && (
+                                    <span className="px-1 rounded bg-slate-100 text-slate-500 shrink-0 max-w-[80px] truncate">{groups[call.name]}</span>
+                                )}
+                                <span className="font-mono font-medium text-slate-700 shrink-0">{call.name}</span>
+                                <span className="font-mono text-slate-400 truncate">{formatArguments(call.arguments)}</span>
+                                {rounds > 1 && <span className="ml-auto text-slate-300 shrink-0">#{call.round}</span>}
+                            </button>
+                            {expandedId === call.id && call.result && (
+                                <div className="px-2 pb-1.5 max-h-40 overflow-y-auto custom-scrollbar font-mono text-slate-500 whitespace-pre-wrap break-words select-text cursor-text">
+                                    {call.result}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,147 @@
+// Minimal MCP server for trying the MCP settings locally, no dependencies.
+//   node scripts/mcp-stub-server.js [port]
+// Streamable HTTP: http://localhost:3001/mcp
+// HTTP + SSE:      http://localhost:3001/sse
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.argv[2]) || 3001;
+
+const DOCS = [
+    { title: 'Deploying the API', text: 'Deploys run from the main branch. Tag a release, then run the deploy workflow and watch the canary for 15 minutes.' },
+    { title: 'On-call handbook', text: 'Page the secondary after 10 minutes without acknowledgement. Every incident gets a postmortem within 5 working days.' },
+    { title: 'Code review guidelines', text: 'Keep pull requests under 400 lines, one reviewer from the owning team must approve, and CI has to be green.' }
+];
+
+const TOOLS = [
+    {
+        name: 'search_docs',
+        description: 'Search the internal documentation by keyword.',
+        inputSchema: {
+            type: 'object',
+            properties: { query: { type: 'string', description: 'Keywords' } },
+            required: ['query']
+        }
+    },
+    {
+        name: 'echo',
+        description: 'Return the given text unchanged.',
+        inputSchema: {
+            type: 'object',
+            properties: { text: { type: 'string' } },
+            required: ['text']
+        }
+    }
+];
+
+function callTool(name, args) {
+    if (name === 'echo') {
+        return { content: [{ type: 'text', text: String(args.text ?? '') }] };
+    }
+    if (name === 'search_docs') {
+        const terms = String(args.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+        const hits = DOCS.filter(doc => terms.some(term => `${doc.title} ${doc.text}`.toLowerCase().includes(term)));
+        return {
+            content: [{
+                type: 'text',
+                text: hits.length > 0 ? hits.map(doc => `# ${doc.title}\n${doc.text}`).join('\n\n') : 'No documents found.'
+            }]
+        };
+    }
+    return { content: [{ type: 'text', text: `Unknown tool: ${name}` }], isError: true };
+}
+
+// Returns the JSON-RPC response, or null for notifications
+function handleMessage(message) {
+    if (message.id === undefined) return null;
+    const reply = result => ({ jsonrpc: '2.0', id: message.id, result });
+
+    switch (message.method) {
+        case 'initialize':
+            return reply({
+                protocolVersion: message.params?.protocolVersion || '2025-06-18',
+                capabilities: { tools: {} },
+                serverInfo: { name: 'mcp-stub-server', version: '0.0.0' }
+            });
+        case 'ping':
+            return reply({});
+        case 'tools/list':
+            return reply({ tools: TOOLS });
+        case 'tools/call':
+            return reply(callTool(message.params?.name, message.params?.arguments || {}));
+        default:
+            return { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+    }
+}
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Accept, Authorization, Mcp-Session-Id, MCP-Protocol-Version',
+    'Access-Control-Expose-Headers': 'Mcp-Session-Id'
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+});
+
+// Open legacy SSE streams by session id
+const sseClients = new Map();
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://${req.headers.host}`);
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS).end();
+        return;
+    }
+
+    if (url.pathname === '/mcp' && req.method === 'POST') {
+        const message = JSON.parse(await readBody(req));
+        const response = handleMessage(message);
+        const headers = { ...CORS_HEADERS, 'Content-Type': 'application/json' };
+        if (message.method === 'initialize') headers['Mcp-Session-Id'] = randomUUID();
+        if (!response) {
+            res.writeHead(202, CORS_HEADERS).end();
+            return;
+        }
+        res.writeHead(200, headers).end(JSON.stringify(response));
+        return;
+    }
+
+    if (url.pathname === '/mcp' && req.method === 'DELETE') {
+        res.writeHead(200, CORS_HEADERS).end();
+        return;
+    }
+
+    if (url.pathname === '/sse' && req.method === 'GET') {
+        const sessionId = randomUUID();
+        res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', 'Connection': 'keep-alive' });
+        res.write(`event: endpoint\ndata: /messages?sessionId=${sessionId}\n\n`);
+        sseClients.set(sessionId, res);
+        req.on('close', () => sseClients.delete(sessionId));
+        return;
+    }
+
+    if (url.pathname === '/messages' && req.method === 'POST') {
+        const stream = sseClients.get(url.searchParams.get('sessionId'));
+        if (!stream) {
+            res.writeHead(404, CORS_HEADERS).end('Unknown session');
+            return;
+        }
+        const response = handleMessage(JSON.parse(await readBody(req)));
+        res.writeHead(202, CORS_HEADERS).end();
+        if (response) stream.write(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+        return;
+    }
+
+    res.writeHead(404, CORS_HEADERS).end('Not found');
+});
+
+server.listen(PORT, () => {
+    console.log(`MCP stub server on http://localhost:${PORT}/mcp (Streamable HTTP) and http://localhost:${PORT}/sse (HTTP + SSE)`);
+});
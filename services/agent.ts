@@ -0,0 +1,124 @@
+import { TokenUsage, ToolCallRecord } from '../types';
+import { ChatMessage, CompletionRequest, ToolCall, stream } from './llm';
+
+// Tool calling loop shared by chat nodes: stream, run every tool the model asked for (in
+// parallel), feed the results back and repeat until the model answers or the round limit is hit.
+
+export const DEFAULT_MAX_TOOL_ROUNDS = 5;
+const MAX_TOOL_ROUNDS_KEY = 'max_tool_rounds';
+
+export const getMaxToolRounds = (): number => {
+    const saved = parseInt(localStorage.getItem(MAX_TOOL_ROUNDS_KEY) || '', 10);
+    return saved > 0 ? saved : DEFAULT_MAX_TOOL_ROUNDS;
+};
+
+export const setMaxToolRounds = (rounds: number) => {
+    localStorage.setItem(MAX_TOOL_ROUNDS_KEY, String(rounds));
+};
+
+export type ToolExecutor = (call: ToolCall, signal: AbortSignal) => Promise<string>;
+
+export interface AgentHandlers {
+    onText?: (fullText: string) => void;
+    onReasoning?: (fullReasoning: string) => void;
+    onToolCalls?: (calls: ToolCallRecord[]) => void; // Every status change of every call
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface AgentOptions {
+    profileId?: string;
+    signal: AbortSignal;
+    maxRounds?: number;
+}
+
+export interface AgentResult {
+    text: string;
+    reasoning: string;
+    model: string;
+    toolCalls: ToolCallRecord[];
+}
+
+// Text the model writes before calling tools stays part of the answer
+const joinText = (before: string, after: string) =>
+    before && after ? `${before}\n\n${after}` : before + after;
+
+export async function runAgentLoop(
+    request: CompletionRequest,
+    executeTool: ToolExecutor,
+    handlers: AgentHandlers,
+    options: AgentOptions
+): Promise<AgentResult> {
+    const maxRounds = options.maxRounds ?? getMaxToolRounds();
+    const messages: ChatMessage[] = [...request.messages];
+    const records: ToolCallRecord[] = [];
+    let text = '';
+    let reasoning = '';
+    let model = '';
+
+    const publishCalls = () => handlers.onToolCalls?.(records.map(record => ({ ...record })));
+
+    for (let round = 1; ; round++) {
+        // Past the limit the model has to answer with what it has. The tools stay defined, since
+        // providers reject earlier tool turns without them, but it may not call them
+        const toolsAllowed = round <= maxRounds;
+        const textBefore = text;
+        const reasoningBefore = reasoning;
+
+        const result = await stream(
+            { ...request, messages, toolChoice: toolsAllowed ? request.toolChoice : 'none' },
+            {
+                onText: (_delta, roundText) => {
+                    text = joinText(textBefore, roundText);
+                    handlers.onText?.(text);
+                },
+                onReasoning: (_delta, roundReasoning) => {
+                    reasoning = joinText(reasoningBefore, roundReasoning);
+                    handlers.onReasoning?.(reasoning);
+                }
+            },
+            { profileId: options.profileId, signal: options.signal }
+        );
+        if (result.usage) handlers.onUsage?.(result.usage);
+        text = joinText(textBefore, result.text);
+        model = result.model;
+
+        if (!toolsAllowed || result.toolCalls.length === 0) break;
+
+        const roundRecords: ToolCallRecord[] = result.toolCalls.map(call => ({
+            id: call.id,
+            name: call.name,
+            arguments: call.arguments,
+            round,
+            status: 'running'
+        }));
+        records.push(...roundRecords);
+        publishCalls();
+
+        const results = await Promise.all(result.toolCalls.map(async (call, index) => {
+            const record = roundRecords[index];
+            try {
+                record.result = await executeTool(call, options.signal);
+                record.status = 'done';
+            } catch (error) {
+                if (options.signal.aborted) throw error;
+                console.error(`Tool ${call.name} failed`, error);
+                record.result = `Error executing ${call.name}: ${error instanceof Error ? error.message : String(error)}`;
+                record.status = 'error';
+            }
+            publishCalls();
+            return record.result;
+        }));
+
+        messages.push(
+            { role: 'assistant', content: result.text || null, toolCalls: result.toolCalls, thinkingBlocks: result.thinkingBlocks },
+            ...result.toolCalls.map((call, index): ChatMessage => ({
+                role: 'tool',
+                toolCallId: call.id,
+                name: call.name,
+                content: results[index]
+            }))
+        );
+    }
+
+    return { text, reasoning, model, toolCalls: records };
+}
@@ -0,0 +1,54 @@
+import { countRecords, getRecord, writeTransaction } from './db';
+
+// Persistent cache of research work that costs money or needs the network: search responses
+// and generated queries. Entries older than the TTL are ignored and removed when read; a TTL
+// of 0 turns the cache off. The cache is best effort, so storage errors only skip it.
+
+export const DEFAULT_CACHE_TTL_HOURS = 24;
+const TTL_KEY = 'research_cache_ttl_hours';
+
+interface CacheEntry {
+    key: string;
+    value: unknown;
+    storedAt: number;
+}
+
+export const getCacheTtlHours = (): number => {
+    const saved = parseFloat(localStorage.getItem(TTL_KEY) || '');
+    return saved >= 0 ? saved : DEFAULT_CACHE_TTL_HOURS;
+};
+
+export const setCacheTtlHours = (hours: number) => {
+    localStorage.setItem(TTL_KEY, String(hours));
+};
+
+export async function getCached<T>(key: string): Promise<T | undefined> {
+    const ttl = getCacheTtlHours() * 60 * 60 * 1000;
+    if (ttl <= 0) return undefined;
+    try {
+        const entry = await getRecord<CacheEntry>('cache', key);
+        if (!entry) return undefined;
+        if (Date.now() - entry.storedAt > ttl) {
+            await writeTransaction(['cache'], tx => tx.objectStore('cache').delete(key));
+            return undefined;
+        }
+        return entry.value as T;
+    } catch (error) {
+        console.warn('Cache read failed:', error);
+        return undefined;
+    }
+}
+
+export async function setCached(key: string, value: unknown): Promise<void> {
+    if (getCacheTtlHours() <= 0) return;
+    try {
+        const entry: CacheEntry = { key, value, storedAt: Date.now() };
+        await writeTransaction(['cache'], tx => tx.objectStore('cache').put(entry));
+    } catch (error) {
+        console.warn('Cache write failed:', error);
+    }
+}
+
+export const countCached = () => countRecords('cache');
+
+export const clearCache = () => writeTransaction(['cache'], tx => tx.objectStore('cache').clear());
@@ -0,0 +1,133 @@
+import { ReasoningMode, Source } from '../types';
+import { ChatMessage, CompletionRequest, getCapabilities, getLLMConfig } from './llm';
+import { ContextPlan, MergeParent, collectAncestors, contextMessages, formatUserTurn, mergeParents, planContext } from './context';
+import { PromptPreset, renderPrompt, resolvePreset } from './prompts';
+import { WEB_SEARCH_TOOL, resolveTools } from './tools';
+import { withSourceContent } from './sources';
+
+// Assembles the request a chat node sends: system prompt, ancestor history, the current
+// question and the tool / search / reasoning settings.
+// Shared by ChatNode (which sends it) and the request inspector (which only shows it).
+
+// Text of each inherited source in the system prompt, so a branch can cite them without searching
+const INHERITED_EXCERPT_CHARS = 600;
+
+const formatInheritedSource = (source: Source) => {
+    const text = source.passages?.length ? source.passages.join(' ... ') : source.content;
+    const excerpt = text?.replace(/\s+/g, ' ').trim().slice(0, INHERITED_EXCERPT_CHARS);
+    return `[${source.id}] ${source.title} (${source.url})${excerpt ? `\n${excerpt}` : ''}`;
+};
+
+export interface ChatTurnInput {
+    nodeId: string;
+    inputText: string;
+    quote?: string;
+    quoteVersion?: number;
+    profileId?: string;
+    reasoningMode: ReasoningMode;
+    isSearchEnabled: boolean;
+    enabledTools?: string[]; // Tools from the registry besides web_search
+    promptPresetId?: string; // Node override
+    canvasPresetId?: string; // Canvas default
+    canvasTitle?: string;
+    inheritedSources?: Source[];
+}
+
+export interface PreparedChatRequest {
+    plan: ContextPlan;
+    preset: PromptPreset;
+    systemPrompt: string;
+    currentPrompt: string;
+    searchActive: boolean;
+    merged: MergeParent[]; // Parents combined by a merge node, empty for a single parent
+    nativeSearchDropped: boolean; // Native search was possible but the tools rule it out
+    request: Omit<CompletionRequest, 'messages'>;
+}
+
+// The preset with its variables filled in, plus the search instruction when search is on
+export const buildSystemPrompt = (template: string, input: ChatTurnInput, searchActive: boolean) => {
+    let systemPrompt = renderPrompt(template, {
+        question: input.inputText,
+        quote: input.quote,
+        model: getLLMConfig(input.profileId).model,
+        canvas: input.canvasTitle
+    });
+
+    if (searchActive) {
+        systemPrompt += `\n\nCRITICAL: You MUST perform an online internet search to answer this request with the latest, real-time information. Do not rely solely on your internal training data.\nCurrent Date and Time: ${new Date().toLocaleString()}`;
+    }
+    return systemPrompt;
+};
+
+export function prepareChatRequest(
+    input: ChatTurnInput,
+    nodes: { id: string; data: Record<string, unknown> }[],
+    edges: { source: string; target: string }[]
+): PreparedChatRequest {
+    const capabilities = getCapabilities(input.profileId);
+    // Local models may not support function calling or provider-side search at all
+    const searchActive = input.isSearchEnabled && (capabilities.tools || capabilities.nativeSearch);
+    const turns = collectAncestors(input.nodeId, nodes, edges, input.quoteVersion);
+    const merged = mergeParents(input.nodeId, nodes, edges, turns);
+
+    const preset = resolvePreset(input.promptPresetId, input.canvasPresetId);
+    let systemPrompt = buildSystemPrompt(preset.template, input, searchActive);
+    if (merged.length > 0) {
+        // Otherwise the model reads the chains as one conversation that keeps changing topic
+        systemPrompt += `\n\nThe conversation history combines ${merged.length} branches that were explored separately, one after the other. Take all of them into account.`;
+    }
+    const tools = capabilities.tools ? resolveTools(input.enabledTools) : [];
+    // Providers with native grounding (Gemini, Anthropic) search on their own side; everything
+    // else gets our client-side web_search tool, and so does Gemini next to other tools, since
+    // it rejects grounding and function declarations in one request
+    const nativeSearchDropped = searchActive && capabilities.nativeSearch
+        && !capabilities.nativeSearchWithTools && tools.length > 0;
+    const useNativeSearch = searchActive && capabilities.nativeSearch && !nativeSearchDropped;
+    // Our search results and inherited sources are numbered; native search results are not
+    if ((searchActive && !useNativeSearch) || tools.some(tool => tool.citesSources) || input.inheritedSources?.length) {
+        systemPrompt += '\n\nWhen you use information from a source, cite it inline with its number in square brackets, e.g. [1] or [2][3]. Only cite numbers that appear in the sources.';
+    }
+    if (input.inheritedSources?.length) {
+        const inherited = withSourceContent(input.inheritedSources, input.nodeId, nodes, edges);
+        systemPrompt += `\n\nSources found earlier in this conversation:\n${inherited.map(formatInheritedSource).join('\n\n')}`;
+    }
+    const currentPrompt = formatUserTurn(input.inputText, input.quote);
+
+    // Ancestor history, shrunk to fit the model's context window
+    const plan = planContext(
+        turns,
+        [{ role: 'system', content: systemPrompt }, { role: 'user', content: currentPrompt }],
+        input.profileId
+    );
+
+    const definitions = [
+        ...(searchActive && !useNativeSearch ? [WEB_SEARCH_TOOL] : []),
+        ...tools.map(tool => tool.definition)
+    ];
+
+    return {
+        plan,
+        preset,
+        systemPrompt,
+        currentPrompt,
+        searchActive,
+        merged,
+        nativeSearchDropped,
+        request: {
+            tools: definitions.length > 0 ? definitions : undefined,
+            reasoningMode: capabilities.reasoning ? input.reasoningMode : 'off',
+            webSearch: useNativeSearch
+        }
+    };
+}
+
+// Full message list for a prepared request; without resolved history the plan's
+// messages are used as they are (summary placeholder included)
+export const buildChatMessages = (
+    prepared: PreparedChatRequest,
+    history: ChatMessage[] = contextMessages(prepared.plan)
+): ChatMessage[] => [
+    { role: 'system', content: prepared.systemPrompt },
+    ...history,
+    { role: 'user', content: prepared.currentPrompt }
+];
@@ -0,0 +1,421 @@
+import { ChatNodeData, ContextSummary, ResearchNodeData, TokenUsage, ToolCallRecord } from '../types';
+import { ChatMessage, complete, getLLMConfig } from './llm';
+import { getProfile } from './profiles';
+import { estimateMessagesTokens, estimateTokens } from './usage';
+
+// Builds the conversation history a ChatNode sends: walks the ancestor chain, estimates its size
+// against the model's context window and shrinks it with the configured strategy when it doesn't fit.
+
+export type ContextStrategy = 'drop_oldest' | 'summarize' | 'quotes_only';
+
+export const CONTEXT_STRATEGIES: Record<ContextStrategy, { label: string; description: string }> = {
+    drop_oldest: { label: 'Drop oldest', description: 'Leave out the oldest ancestors until the history fits.' },
+    summarize: { label: 'Summarize', description: 'Replace older ancestors with a summary that is generated once and cached on the tree.' },
+    quotes_only: { label: 'Quoted passages only', description: 'Keep questions, but only the passages that were quoted from older answers.' }
+};
+
+const STRATEGY_KEY = 'context_strategy';
+const INCLUDE_REASONING_KEY = 'include_reasoning_in_context';
+
+// Used when neither the profile nor the table below knows the model; small enough for most local models
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Matched as substrings of the model name, longest match wins
+const KNOWN_CONTEXT_WINDOWS: Record<string, number> = {
+    'gemini': 1_000_000,
+    'claude': 200_000,
+    'gpt-4o': 128_000,
+    'gpt-4.1': 1_000_000,
+    'gpt-5': 400_000,
+    'o3': 200_000,
+    'o4-mini': 200_000,
+    'deepseek': 64_000,
+    'llama3.1': 128_000,
+    'llama3.2': 128_000,
+    'qwen': 32_768,
+    'mistral': 32_768
+};
+
+// Tokens kept free for the answer, capped for small windows
+const MAX_ANSWER_RESERVE = 4096;
+// Allowance for tool definitions and message framing we don't count precisely
+const OVERHEAD_TOKENS = 200;
+// Expected size of a generated summary, used before one exists
+const SUMMARY_TOKENS = 500;
+
+// One ancestor node, already formatted as a user/assistant exchange
+export interface ContextTurn {
+    nodeId: string;
+    label: string; // Short description for the preview
+    user?: string;
+    assistant?: string;
+    quotedByChild?: string; // Passage of the answer the next node in the chain branched from
+    branches?: string[]; // Merge nodes: ids of the direct parents whose chain includes this turn
+    signature: string;
+    cachedSummary?: ContextSummary;
+}
+
+// A direct parent of a merge node and what its chain adds to the context
+export interface MergeParent {
+    nodeId: string;
+    label: string;
+    turns: number; // Shared ancestors count for every chain that reaches them
+}
+
+export type TurnStatus = 'kept' | 'quoted' | 'summarized' | 'dropped' | 'truncated';
+
+export interface PlannedTurn {
+    turn: ContextTurn;
+    status: TurnStatus;
+    tokens: number; // Tokens this turn contributes as sent (0 when dropped or summarized)
+    assistant?: string; // Answer as it will be sent, when it differs from the original
+}
+
+export interface ContextPlan {
+    strategy: ContextStrategy;
+    model: string;
+    contextWindow: number;
+    fixedTokens: number; // System prompt, current question and the answer reserve
+    historyBudget: number;
+    historyTokens: number;
+    turns: PlannedTurn[];
+    summary?: {
+        key: string;
+        nodeId: string; // Newest summarized ancestor, where the summary is cached
+        turnCount: number;
+        text?: string; // Missing until generated
+    };
+}
+
+export const getContextStrategy = (): ContextStrategy => {
+    const stored = localStorage.getItem(STRATEGY_KEY) as ContextStrategy | null;
+    return stored && stored in CONTEXT_STRATEGIES ? stored : 'drop_oldest';
+};
+
+export const setContextStrategy = (strategy: ContextStrategy) => {
+    localStorage.setItem(STRATEGY_KEY, strategy);
+};
+
+export const detectContextWindow = (model: string): number | undefined => {
+    const name = model.toLowerCase();
+    const match = Object.keys(KNOWN_CONTEXT_WINDOWS)
+        .filter(key => name.includes(key))
+        .sort((a, b) => b.length - a.length)[0];
+    return match ? KNOWN_CONTEXT_WINDOWS[match] : undefined;
+};
+
+export const getContextWindow = (profileId?: string): number =>
+    getProfile(profileId).contextWindow
+    || detectContextWindow(getLLMConfig(profileId).model)
+    || DEFAULT_CONTEXT_WINDOW;
+
+export const formatUserTurn = (text: string, quote?: string) =>
+    quote ? `Regarding the text "${quote}":\n${text}` : text;
+
+// Incoming edges in creation order; the first one is the parent a node was branched from
+const parentIds = (nodeId: string, edges: { source: string; target: string }[]) =>
+    edges.filter(e => e.target === nodeId).map(e => e.source);
+
+// Walk up from a node through all of its parents. A node with several parents (a merge) gets
+// the chains of every parent: shared ancestors appear once and each turn comes after its own
+// parents. A node's quote and quoted version belong to its first parent, other parents
+// contribute their active version. Each ancestor uses the version its child quoted.
+export function collectAncestors(
+    nodeId: string,
+    nodes: { id: string; data: Record<string, unknown> }[],
+    edges: { source: string; target: string }[],
+    quoteVersion?: number
+): ContextTurn[] {
+    // Thinking traces are long and mostly noise for follow-ups, so they are opt-in
+    const includeReasoning = localStorage.getItem(INCLUDE_REASONING_KEY) === 'true';
+    const turns: ContextTurn[] = [];
+    const visited = new Set<string>([nodeId]);
+
+    const visitParents = (childId: string, childVersion: number | undefined, childQuote: string | undefined) => {
+        parentIds(childId, edges).forEach((parentId, index) => {
+            if (visited.has(parentId)) return;
+            visited.add(parentId);
+            const parentNode = nodes.find(n => n.id === parentId);
+            if (!parentNode) return;
+
+            const parentData = parentNode.data as ChatNodeData;
+            // Depth first, so the parent's own ancestors come before it
+            visitParents(parentId, parentData.quoteVersion, parentData.quote);
+
+            const turn = toTurn(parentId, parentNode.data, index === 0 ? childVersion : undefined, includeReasoning);
+            if (turn) {
+                turn.quotedByChild = index === 0 ? childQuote : undefined;
+                turns.push(turn);
+            }
+        });
+    };
+
+    const node = nodes.find(n => n.id === nodeId);
+    visitParents(nodeId, quoteVersion, (node?.data as ChatNodeData | undefined)?.quote);
+
+    // Merges: note which parent chains each turn came through
+    const parents = parentIds(nodeId, edges);
+    if (parents.length > 1) {
+        const chains = new Map(parents.map(id => [id, ancestorIds(id, edges)]));
+        for (const turn of turns) {
+            turn.branches = parents.filter(id => chains.get(id)!.has(turn.nodeId));
+        }
+    }
+
+    return turns;
+}
+
+// A node and everything above it
+export function ancestorIds(nodeId: string, edges: { source: string; target: string }[]): Set<string> {
+    const found = new Set<string>([nodeId]);
+    const queue = [nodeId];
+    while (queue.length > 0) {
+        for (const parentId of parentIds(queue.shift()!, edges)) {
+            if (found.has(parentId)) continue;
+            found.add(parentId);
+            queue.push(parentId);
+        }
+    }
+    return found;
+}
+
+// The parents of a node that has more than one, with the number of turns each chain adds
+export function mergeParents(
+    nodeId: string,
+    nodes: { id: string; data: Record<string, unknown> }[],
+    edges: { source: string; target: string }[],
+    turns: ContextTurn[]
+): MergeParent[] {
+    const parents = parentIds(nodeId, edges);
+    if (parents.length < 2) return [];
+
+    return parents.map(parentId => {
+        const data = nodes.find(n => n.id === parentId)?.data || {};
+        const text = (data as ResearchNodeData).query || (data as ChatNodeData).inputText || (data.content as string | undefined) || 'Untitled';
+        return {
+            nodeId: parentId,
+            label: text.slice(0, 40),
+            turns: turns.filter(t => t.branches?.includes(parentId)).length
+        };
+    });
+}
+
+// Tool results the answer was based on, so descendants can build on them without calling again
+const MAX_TOOL_RESULT_CHARS = 1500;
+
+const formatToolCalls = (calls: ToolCallRecord[]) => {
+    const lines = calls
+        .filter(call => call.status !== 'running')
+        .map(call => {
+            const result = call.result || '';
+            const shortened = result.length > MAX_TOOL_RESULT_CHARS ? `${result.slice(0, MAX_TOOL_RESULT_CHARS)}...` : result;
+            return `${call.name}(${call.arguments}):\n${shortened}`;
+        });
+    return `[Tools used for this answer]\n${lines.join('\n\n')}\n[End of tool results]`;
+};
+
+// Short FNV-1a hash, so an edit that keeps the length still changes a turn's signature
+const hashText = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+};
+
+function toTurn(
+    nodeId: string,
+    data: Record<string, unknown>,
+    version: number | undefined,
+    includeReasoning: boolean
+): ContextTurn | null {
+    let user: string | undefined;
+    let assistant: string | undefined;
+
+    // Research nodes have 'query' and 'answer' instead of 'inputText' and 'aiResponse'
+    if ('query' in data && 'answer' in data) {
+        const research = data as ResearchNodeData;
+        user = research.query || undefined;
+        assistant = research.answer || undefined;
+    } else if ('content' in data && !('inputText' in data)) {
+        // Notes are not part of the conversation
+        return null;
+    } else {
+        const chat = data as ChatNodeData;
+        if (chat.inputText) user = formatUserTurn(chat.inputText, chat.quote);
+
+        const answered = version !== undefined && chat.responses?.[version]
+            ? chat.responses[version]
+            : { text: chat.aiResponse, reasoning: chat.reasoning, toolCalls: chat.toolCalls };
+        if (answered.text) {
+            assistant = includeReasoning && answered.reasoning
+                ? `<thinking>\n${answered.reasoning}\n</thinking>\n\n${answered.text}`
+                : answered.text;
+            if (answered.toolCalls && answered.toolCalls.length > 0) {
+                assistant = `${formatToolCalls(answered.toolCalls)}\n\n${assistant}`;
+            }
+        }
+    }
+
+    if (!user && !assistant) return null;
+
+    const label = (user || assistant || '').replace(/^Regarding the text "[\s\S]*?":\n/, '').slice(0, 60);
+    return {
+        nodeId,
+        label,
+        user,
+        assistant,
+        signature: `${nodeId}:${version ?? 'active'}:${hashText(user || '')}:${hashText(assistant || '')}`,
+        cachedSummary: (data as ChatNodeData).contextSummary
+    };
+}
+
+const turnMessages = (user: string | undefined, assistant: string | undefined): ChatMessage[] => {
+    const messages: ChatMessage[] = [];
+    if (user) messages.push({ role: 'user', content: user });
+    if (assistant) messages.push({ role: 'assistant', content: assistant });
+    return messages;
+};
+
+const quotedAnswer = (turn: ContextTurn) =>
+    turn.quotedByChild ? `[Earlier answer shortened, quoted passage:] "...${turn.quotedByChild}..."` : undefined;
+
+// Decide what to send. Synchronous so the node can show it as a preview; a summary that
+// doesn't exist yet is only sized here and generated by resolveContext.
+export function planContext(
+    turns: ContextTurn[],
+    fixedMessages: ChatMessage[],
+    profileId?: string,
+    strategy: ContextStrategy = getContextStrategy()
+): ContextPlan {
+    const contextWindow = getContextWindow(profileId);
+    const reserve = Math.min(MAX_ANSWER_RESERVE, Math.floor(contextWindow / 4));
+    const fixedTokens = estimateMessagesTokens(fixedMessages) + reserve + OVERHEAD_TOKENS;
+    const historyBudget = Math.max(0, contextWindow - fixedTokens);
+
+    const planned: PlannedTurn[] = turns.map(turn => ({
+        turn,
+        status: 'kept',
+        tokens: estimateMessagesTokens(turnMessages(turn.user, turn.assistant))
+    }));
+
+    const plan: ContextPlan = {
+        strategy,
+        model: getLLMConfig(profileId).model,
+        contextWindow,
+        fixedTokens,
+        historyBudget,
+        historyTokens: 0,
+        turns: planned
+    };
+    const total = () => planned.reduce((sum, p) => sum + p.tokens, 0)
+        + (plan.summary ? (plan.summary.text ? estimateTokens(plan.summary.text) : SUMMARY_TOKENS) : 0);
+
+    // The direct parent is always sent in full if at all possible
+    const older = planned.slice(0, -1);
+
+    if (total() > historyBudget && strategy === 'quotes_only') {
+        for (const p of older) {
+            p.status = 'quoted';
+            p.assistant = quotedAnswer(p.turn);
+            p.tokens = estimateMessagesTokens(turnMessages(p.turn.user, p.assistant));
+        }
+    }
+
+    if (total() > historyBudget && strategy === 'summarize' && older.length > 0) {
+        // Summarize the shortest prefix of older turns that makes the rest fit
+        plan.summary = { key: '', nodeId: '', turnCount: 0 };
+        for (const p of older) {
+            p.status = 'summarized';
+            p.tokens = 0;
+            plan.summary.turnCount++;
+            if (total() <= historyBudget) break;
+        }
+        const summarized = older.slice(0, plan.summary.turnCount).map(p => p.turn);
+        const newest = summarized[summarized.length - 1];
+        const key = summarized.map(t => t.signature).join('|');
+        plan.summary = {
+            key,
+            nodeId: newest.nodeId,
+            turnCount: summarized.length,
+            text: newest.cachedSummary?.key === key ? newest.cachedSummary.text : undefined
+        };
+    }
+
+    // Fallback for every strategy: drop the oldest turns that are still sent
+    for (const p of older) {
+        if (total() <= historyBudget) break;
+        if (p.status === 'summarized') continue;
+        p.status = 'dropped';
+        p.tokens = 0;
+    }
+
+    // Even the parent alone is too large: cut its answer
+    const parent = planned[planned.length - 1];
+    if (parent && total() > historyBudget && parent.turn.assistant) {
+        const userTokens = estimateMessagesTokens(turnMessages(parent.turn.user, undefined));
+        const room = Math.max(0, historyBudget - (total() - parent.tokens) - userTokens);
+        // Estimate is ~4 characters per token
+        parent.assistant = parent.turn.assistant.slice(0, room * 4) + '\n\n[...truncated to fit the context window]';
+        parent.status = 'truncated';
+        parent.tokens = estimateMessagesTokens(turnMessages(parent.turn.user, parent.assistant));
+    }
+
+    plan.historyTokens = total();
+    return plan;
+}
+
+interface ResolveOptions {
+    profileId?: string;
+    signal?: AbortSignal;
+    onUsage?: (usage: TokenUsage) => void;
+    onSummary?: (nodeId: string, summary: ContextSummary) => void; // Persist the summary for later requests
+}
+
+// History messages for a plan. Without a summary text (not generated yet) a placeholder
+// stands in for it, which is what the request inspector shows.
+export function contextMessages(plan: ContextPlan, summaryText = plan.summary?.text): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+
+    if (plan.summary) {
+        const text = summaryText || `[Summary of ${plan.summary.turnCount} earlier turn(s), generated when the request is sent]`;
+        messages.push({ role: 'system', content: `Summary of the earlier conversation (older messages omitted):\n${text}` });
+    }
+
+    for (const p of plan.turns) {
+        if (p.status === 'dropped' || p.status === 'summarized') continue;
+        messages.push(...turnMessages(p.turn.user, p.assistant ?? p.turn.assistant));
+    }
+
+    return messages;
+}
+
+// Turn a plan into history messages, generating the summary first when it isn't cached
+export async function resolveContext(plan: ContextPlan, options: ResolveOptions = {}): Promise<ChatMessage[]> {
+    if (!plan.summary || plan.summary.text) {
+        return contextMessages(plan);
+    }
+
+    const transcript = plan.turns
+        .filter(p => p.status === 'summarized')
+        .flatMap(p => turnMessages(p.turn.user, p.turn.assistant))
+        .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+        .join('\n\n');
+
+    const result = await complete({
+        messages: [
+            {
+                role: 'system',
+                content: 'Summarize the conversation below so it can replace it as context for follow-up questions. Keep key facts, definitions, numbers, decisions and open questions. Use the language of the conversation. Stay under 300 words.'
+            },
+            { role: 'user', content: transcript }
+        ],
+        maxTokens: 600
+    }, { profileId: options.profileId, signal: options.signal });
+    if (result.usage) options.onUsage?.(result.usage);
+
+    const text = result.text.trim();
+    options.onSummary?.(plan.summary.nodeId, { key: plan.summary.key, text });
+    return contextMessages(plan, text);
+}
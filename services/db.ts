@@ -0,0 +1,68 @@
+// The app's IndexedDB database, for data too large for localStorage. Stores are created in
+// onupgradeneeded; bump DB_VERSION when adding one.
+
+const DB_NAME = 'chat-tree';
+const DB_VERSION = 2;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains('documents')) {
+                    db.createObjectStore('documents', { keyPath: 'id' }).createIndex('canvasId', 'canvasId');
+                }
+                if (!db.objectStoreNames.contains('chunks')) {
+                    const chunks = db.createObjectStore('chunks', { keyPath: 'id' });
+                    chunks.createIndex('canvasId', 'canvasId');
+                    chunks.createIndex('documentId', 'documentId');
+                }
+                if (!db.objectStoreNames.contains('cache')) {
+                    db.createObjectStore('cache', { keyPath: 'key' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+export const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// Resolves once everything queued in run() is committed
+export async function writeTransaction(stores: string[], run: (tx: IDBTransaction) => void): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(stores, 'readwrite');
+    run(tx);
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+export async function getRecord<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+    const db = await openDatabase();
+    return requestResult(db.transaction(store).objectStore(store).get(key));
+}
+
+export async function countRecords(store: string): Promise<number> {
+    const db = await openDatabase();
+    return requestResult(db.transaction(store).objectStore(store).count());
+}
+
+export async function getAllByIndex<T>(store: string, index: string, key: IDBValidKey): Promise<T[]> {
+    const db = await openDatabase();
+    return requestResult(db.transaction(store).objectStore(store).index(index).getAll(key));
+}
@@ -0,0 +1,176 @@
+import { getAllByIndex, writeTransaction } from './db';
+import { htmlToText, scoreChunks, splitIntoChunks } from './pages';
+import { SearchResult } from './search';
+import { localSourceUrl } from './sources';
+
+// Files attached to a canvas (PDF, Markdown, plain text, HTML), split into chunks and kept in
+// IndexedDB so research nodes and the search_documents chat tool can retrieve from them
+// without a search API. Results are SearchResults, so they are numbered and cited like web
+// pages; a PDF result is one page, titled with the file name and page number.
+
+export type LocalDocumentType = 'pdf' | 'markdown' | 'text' | 'html';
+
+export interface LocalDocument {
+    id: string;
+    canvasId: string;
+    name: string;
+    type: LocalDocumentType;
+    size: number; // Bytes
+    pageCount?: number; // PDFs only
+    chunkCount: number;
+    addedAt: number;
+}
+
+interface DocumentChunk {
+    id: string;
+    documentId: string;
+    documentName: string;
+    canvasId: string;
+    page?: number;
+    text: string;
+}
+
+export const DOCUMENT_ACCEPT = '.pdf,.md,.markdown,.txt,.html,.htm';
+
+const documentType = (file: File): LocalDocumentType | undefined => {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'pdf' || file.type === 'application/pdf') return 'pdf';
+    if (extension === 'md' || extension === 'markdown') return 'markdown';
+    if (extension === 'html' || extension === 'htm' || file.type === 'text/html') return 'html';
+    if (extension === 'txt' || file.type.startsWith('text/')) return 'text';
+    return undefined;
+};
+
+// pdf.js is large, so it is only loaded once a PDF is added
+async function extractPdfPages(file: File): Promise<string[]> {
+    const [pdfjs, worker] = await Promise.all([
+        import('pdfjs-dist'),
+        import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+    ]);
+    pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+
+    const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+    try {
+        const pages: string[] = [];
+        for (let number = 1; number <= pdf.numPages; number++) {
+            const content = await (await pdf.getPage(number)).getTextContent();
+            pages.push(content.items
+                .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')
+                .join('')
+                .replace(/[ \t]+/g, ' ')
+                .trim());
+        }
+        return pages;
+    } finally {
+        await pdf.destroy();
+    }
+}
+
+// Reads, chunks and stores a file. Throws for unsupported types and files without text.
+export async function addDocument(canvasId: string, file: File): Promise<LocalDocument> {
+    const type = documentType(file);
+    if (!type) {
+        throw new Error(`${file.name}: only PDF, Markdown, plain text and HTML files are supported`);
+    }
+
+    // One entry per PDF page; other files are a single page without a number
+    const pages = type === 'pdf'
+        ? await extractPdfPages(file)
+        : [type === 'html' ? htmlToText(await file.text()).text : await file.text()];
+
+    const id = `doc-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const chunks: DocumentChunk[] = pages.flatMap((text, index) =>
+        splitIntoChunks(text).map((chunk, chunkIndex) => ({
+            id: `${id}-${index + 1}-${chunkIndex}`,
+            documentId: id,
+            documentName: file.name,
+            canvasId,
+            page: type === 'pdf' ? index + 1 : undefined,
+            text: chunk
+        }))
+    );
+    if (chunks.length === 0) {
+        throw new Error(`${file.name}: no text found${type === 'pdf' ? ' (scanned PDFs need OCR first)' : ''}`);
+    }
+
+    const document: LocalDocument = {
+        id,
+        canvasId,
+        name: file.name,
+        type,
+        size: file.size,
+        pageCount: type === 'pdf' ? pages.length : undefined,
+        chunkCount: chunks.length,
+        addedAt: Date.now()
+    };
+    await writeTransaction(['documents', 'chunks'], tx => {
+        tx.objectStore('documents').put(document);
+        const store = tx.objectStore('chunks');
+        chunks.forEach(chunk => store.put(chunk));
+    });
+    return document;
+}
+
+export async function listDocuments(canvasId: string): Promise<LocalDocument[]> {
+    const documents = await getAllByIndex<LocalDocument>('documents', 'canvasId', canvasId);
+    return documents.sort((a, b) => a.addedAt - b.addedAt);
+}
+
+export const hasDocuments = async (canvasId: string) => (await listDocuments(canvasId)).length > 0;
+
+const deleteChunks = (tx: IDBTransaction, index: string, key: string) => {
+    tx.objectStore('chunks').index(index).openKeyCursor(IDBKeyRange.only(key)).onsuccess = function () {
+        const cursor = this.result;
+        if (!cursor) return;
+        tx.objectStore('chunks').delete(cursor.primaryKey);
+        cursor.continue();
+    };
+};
+
+export const deleteDocument = (documentId: string) =>
+    writeTransaction(['documents', 'chunks'], tx => {
+        tx.objectStore('documents').delete(documentId);
+        deleteChunks(tx, 'documentId', documentId);
+    });
+
+// When the canvas itself is deleted
+export const deleteCanvasDocuments = (canvasId: string) =>
+    writeTransaction(['documents', 'chunks'], tx => {
+        tx.objectStore('documents').index('canvasId').openKeyCursor(IDBKeyRange.only(canvasId)).onsuccess = function () {
+            const cursor = this.result;
+            if (!cursor) return;
+            tx.objectStore('documents').delete(cursor.primaryKey);
+            cursor.continue();
+        };
+        deleteChunks(tx, 'canvasId', canvasId);
+    });
+
+const CHUNKS_PER_RESULT = 2;
+
+// Best matching pages of the canvas's documents. Chunks of one page are joined into one result.
+export async function searchDocuments(canvasId: string, query: string, maxResults = 5): Promise<SearchResult[]> {
+    const chunks = await getAllByIndex<DocumentChunk>('chunks', 'canvasId', canvasId);
+    if (chunks.length === 0) return [];
+    const scores = scoreChunks(chunks.map(chunk => chunk.text), query);
+
+    const results = new Map<string, { chunk: DocumentChunk; texts: string[] }>();
+    const ranked = chunks
+        .map((chunk, index) => ({ chunk, score: scores[index] }))
+        .filter(entry => entry.score > 0)
+        .sort((a, b) => b.score - a.score);
+    for (const { chunk } of ranked) {
+        const url = localSourceUrl(chunk.documentId, chunk.page);
+        const result = results.get(url);
+        if (result) {
+            if (result.texts.length < CHUNKS_PER_RESULT) result.texts.push(chunk.text);
+        } else if (results.size < maxResults) {
+            results.set(url, { chunk, texts: [chunk.text] });
+        }
+    }
+
+    return [...results.entries()].map(([url, { chunk, texts }]) => ({
+        title: chunk.page ? `${chunk.documentName}, page ${chunk.page}` : chunk.documentName,
+        url,
+        content: texts.join('\n...\n')
+    }));
+}
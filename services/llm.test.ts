@@ -0,0 +1,191 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { LLMConfig, LLMError, stream } from './llm';
+
+// The OpenAI-compatible and Anthropic adapters streaming from a local mock server, through the
+// `config` override of the LLM service instead of stored settings.
+
+interface RecordedRequest {
+    url: string;
+    headers: IncomingMessage['headers'];
+    body: any;
+}
+
+type Reply = (response: ServerResponse) => void;
+
+let server: Server;
+let baseURL: string;
+let replies: Reply[] = [];
+let requests: RecordedRequest[] = [];
+
+const sse = (events: unknown[], named = false): Reply => response => {
+    response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (const event of events) {
+        const type = named ? `event: ${(event as { type: string }).type}\n` : '';
+        response.write(`${type}data: ${JSON.stringify(event)}\n\n`);
+    }
+    if (!named) response.write('data: [DONE]\n\n');
+    response.end();
+};
+
+const status = (code: number, body: unknown): Reply => response => {
+    response.writeHead(code, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+};
+
+const config = (provider: LLMConfig['provider']): Partial<LLMConfig> =>
+    ({ provider, baseURL, apiKey: 'test-key', model: 'test-model' });
+
+const request = { messages: [{ role: 'user' as const, content: 'Hello' }] };
+
+beforeAll(async () => {
+    // Profiles are read from localStorage before the override applies
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+        removeItem: (key: string) => storage.delete(key)
+    });
+
+    server = createServer((incoming, response) => {
+        let body = '';
+        incoming.on('data', chunk => { body += chunk; });
+        incoming.on('end', () => {
+            requests.push({ url: incoming.url || '', headers: incoming.headers, body: JSON.parse(body || '{}') });
+            const reply = replies.shift();
+            if (reply) reply(response);
+            else status(500, { error: { message: 'No reply queued' } })(response);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(() => {
+    replies = [];
+    requests = [];
+});
+
+afterAll(async () => {
+    vi.unstubAllGlobals();
+    await new Promise(resolve => server.close(resolve));
+});
+
+describe('OpenAI-compatible streaming', () => {
+    const chunk = (delta: object, extra: object = {}) =>
+        ({ id: 'chunk', object: 'chat.completion.chunk', model: 'served-model', choices: [{ index: 0, delta, finish_reason: null }], ...extra });
+
+    it('streams text deltas and reads usage from the final chunk', async () => {
+        replies.push(sse([
+            chunk({ role: 'assistant', content: 'Hel' }),
+            chunk({ content: 'lo!' }),
+            { ...chunk({}), choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+            { ...chunk({}), choices: [], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } }
+        ]));
+        const updates: string[] = [];
+
+        const result = await stream(request, { onText: (_delta, fullText) => updates.push(fullText) },
+            { config: config('openai'), maxRetries: 0 });
+
+        expect(updates).toEqual(['Hel', 'Hello!']);
+        expect(result).toMatchObject({
+            text: 'Hello!',
+            finishReason: 'stop',
+            model: 'served-model',
+            usage: { model: 'served-model', promptTokens: 12, completionTokens: 3 }
+        });
+        expect(requests[0].url).toBe('/chat/completions');
+        expect(requests[0].headers.authorization).toBe('Bearer test-key');
+        expect(requests[0].body).toMatchObject({ model: 'test-model', stream: true, stream_options: { include_usage: true } });
+    });
+
+    it('assembles tool call arguments and reasoning from fragments', async () => {
+        replies.push(sse([
+            chunk({ reasoning_content: 'Need the ' }),
+            chunk({ reasoning_content: 'weather.' }),
+            chunk({ tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"ci' } }] }),
+            chunk({ tool_calls: [{ index: 0, function: { arguments: 'ty":"Oslo"}' } }] }),
+            { ...chunk({}), choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] }
+        ]));
+        const reasoning: string[] = [];
+
+        const result = await stream(request, { onReasoning: delta => reasoning.push(delta) },
+            { config: config('openai'), maxRetries: 0 });
+
+        expect(reasoning).toEqual(['Need the ', 'weather.']);
+        expect(result.reasoning).toBe('Need the weather.');
+        expect(result.toolCalls).toEqual([{ id: 'call_1', name: 'weather', arguments: '{"city":"Oslo"}' }]);
+        expect(result.finishReason).toBe('tool_calls');
+    });
+
+    it('retries a failed request before anything was streamed', async () => {
+        replies.push(status(503, { error: { message: 'Busy' } }), sse([chunk({ content: 'Done' })]));
+
+        const result = await stream(request, {}, { config: config('openai'), maxRetries: 1 });
+
+        expect(result.text).toBe('Done');
+        expect(requests).toHaveLength(2);
+    });
+});
+
+describe('Anthropic streaming', () => {
+    it('streams text deltas and reads usage from message_start and message_delta', async () => {
+        replies.push(sse([
+            { type: 'message_start', message: { model: 'served-model', usage: { input_tokens: 20, output_tokens: 1 } } },
+            { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi ' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'there' } },
+            { type: 'content_block_stop', index: 0 },
+            { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 4 } },
+            { type: 'message_stop' }
+        ], true));
+        const updates: string[] = [];
+
+        const result = await stream(request, { onText: (_delta, fullText) => updates.push(fullText) },
+            { config: config('anthropic'), maxRetries: 0 });
+
+        expect(updates).toEqual(['Hi ', 'Hi there']);
+        expect(result).toMatchObject({
+            text: 'Hi there',
+            finishReason: 'stop',
+            model: 'served-model',
+            usage: { model: 'served-model', promptTokens: 20, completionTokens: 4 }
+        });
+        expect(requests[0].url).toBe('/messages');
+        expect(requests[0].headers['x-api-key']).toBe('test-key');
+        expect(requests[0].body).toMatchObject({ model: 'test-model', stream: true });
+    });
+
+    it('collects thinking blocks with their signatures and tool calls', async () => {
+        replies.push(sse([
+            { type: 'message_start', message: { model: 'served-model', usage: { input_tokens: 5 } } },
+            { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Look it up.' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'signature_delta', signature: 'sig' } },
+            { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'weather', input: {} } },
+            { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city":' } },
+            { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Oslo"}' } },
+            { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 9 } }
+        ], true));
+
+        const result = await stream(request, {}, { config: config('anthropic'), maxRetries: 0 });
+
+        expect(result.reasoning).toBe('Look it up.');
+        expect(result.thinkingBlocks).toEqual([{ type: 'thinking', thinking: 'Look it up.', signature: 'sig' }]);
+        expect(result.toolCalls).toEqual([{ id: 'toolu_1', name: 'weather', arguments: '{"city":"Oslo"}' }]);
+        expect(result.finishReason).toBe('tool_calls');
+    });
+
+    it('turns an error event into an LLMError', async () => {
+        replies.push(sse([
+            { type: 'message_start', message: { model: 'served-model', usage: { input_tokens: 5 } } },
+            { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }
+        ], true));
+
+        const error = await stream(request, {}, { config: config('anthropic'), maxRetries: 0 }).catch(e => e);
+
+        expect(error).toBeInstanceOf(LLMError);
+        expect(error.kind).toBe('server');
+    });
+});
@@ -0,0 +1,247 @@
+import { getProfile, PROVIDER_CAPABILITIES, PROVIDER_DEFAULTS } from './profiles';
+import {
+    CompletionRequest,
+    CompletionResult,
+    HttpRequestPreview,
+    LLMConfig,
+    LLMError,
+    ProviderAdapter,
+    ProviderCapabilities,
+    ProviderType,
+    StreamHandlers,
+    errorFromStatus
+} from './providers/types';
+import { estimateMessagesTokens, estimateTokens } from './usage';
+import { openaiAdapter } from './providers/openai';
+import { anthropicAdapter } from './providers/anthropic';
+import { geminiAdapter } from './providers/gemini';
+
+// Single entry point for every LLM call in the app (chat nodes, deep research, title generation).
+// Callers describe *what* they want with a CompletionRequest; configuration, provider selection,
+// retries and error normalization all live here.
+
+export * from './providers/types';
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+    timeoutMs?: number;
+    maxRetries?: number;
+    profileId?: string; // Model profile to use, defaults to the profile marked as default
+    config?: Partial<LLMConfig>; // Overrides stored settings (e.g. point at a local mock server)
+}
+
+const ADAPTERS: Record<ProviderType, ProviderAdapter> = {
+    openai: openaiAdapter,
+    anthropic: anthropicAdapter,
+    gemini: geminiAdapter,
+    local: openaiAdapter // Local servers speak the OpenAI-compatible API
+};
+
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 800;
+
+export const getLLMConfig = (profileId?: string): LLMConfig => {
+    const profile = getProfile(profileId);
+    const defaults = PROVIDER_DEFAULTS[profile.provider];
+
+    // The VITE_GEMINI_* variables predate profiles and describe an OpenAI-compatible endpoint
+    const env = profile.provider === 'openai'
+        ? {
+            apiKey: import.meta.env.VITE_GEMINI_API_KEY,
+            baseURL: import.meta.env.VITE_GEMINI_API_URL,
+            model: import.meta.env.VITE_GEMINI_MODEL_NAME
+        }
+        : { apiKey: '', baseURL: '', model: '' };
+
+    return {
+        provider: profile.provider,
+        apiKey: profile.apiKey || env.apiKey || '',
+        baseURL: profile.baseURL || env.baseURL || defaults.baseURL,
+        model: profile.model || env.model || defaults.model
+    };
+};
+
+export const getCapabilities = (profileId?: string): ProviderCapabilities =>
+    PROVIDER_CAPABILITIES[getProfile(profileId).provider];
+
+export const isLLMConfigured = (profileId?: string) =>
+    !getCapabilities(profileId).requiresApiKey || !!getLLMConfig(profileId).apiKey;
+
+// Ask an OpenAI-compatible server (Ollama, llama.cpp, LM Studio...) which models it serves
+export async function listModels(baseURL: string, apiKey?: string, signal?: AbortSignal): Promise<string[]> {
+    let response: Response;
+    try {
+        response = await fetch(`${baseURL.replace(/\/$/, '')}/models`, {
+            headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+            signal
+        });
+    } catch (error) {
+        throw normalizeError(error, openaiAdapter, false);
+    }
+    if (!response.ok) {
+        throw errorFromStatus(response.status, response.statusText);
+    }
+
+    const json = await response.json();
+    const models: any[] = json.data || json.models || [];
+    return models
+        .map(model => model.id || model.name)
+        .filter((name): name is string => typeof name === 'string' && name.length > 0)
+        .sort();
+}
+
+// --- Public API ---
+
+export async function complete(request: CompletionRequest, options: RequestOptions = {}): Promise<CompletionResult> {
+    const config = resolveConfig(options);
+    const adapter = ADAPTERS[config.provider];
+
+    const result = await withRetry(options, adapter, (signal) => adapter.complete(request, config, signal));
+    return withUsage(request, result);
+}
+
+export async function stream(
+    request: CompletionRequest,
+    handlers: StreamHandlers = {},
+    options: RequestOptions = {}
+): Promise<CompletionResult> {
+    const config = resolveConfig(options);
+    const adapter = ADAPTERS[config.provider];
+
+    // Only retry while nothing has been handed to the caller, otherwise the UI would see duplicated text
+    let hasEmitted = false;
+    const trackedHandlers: StreamHandlers = {
+        ...handlers,
+        onText: (delta, fullText) => {
+            hasEmitted = true;
+            handlers.onText?.(delta, fullText);
+        },
+        onReasoning: (delta, fullReasoning) => {
+            hasEmitted = true;
+            handlers.onReasoning?.(delta, fullReasoning);
+        }
+    };
+
+    const result = await withRetry(
+        options,
+        adapter,
+        (signal) => adapter.stream(request, config, trackedHandlers, signal),
+        () => !hasEmitted
+    );
+    return withUsage(request, result);
+}
+
+// The HTTP request `stream` (or `complete`) would send, for inspection. The API key is
+// replaced by a placeholder so the result can be copied and shared safely.
+export function describeRequest(
+    request: CompletionRequest,
+    options: RequestOptions = {},
+    streaming = true
+): HttpRequestPreview {
+    const config = { ...getLLMConfig(options.profileId), ...options.config, apiKey: '$API_KEY' };
+    return ADAPTERS[config.provider].describe(request, config, streaming);
+}
+
+export function formatCurl(http: HttpRequestPreview): string {
+    const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+    return [
+        `curl ${quote(http.url)}`,
+        // Keep $API_KEY expandable by the shell
+        ...Object.entries(http.headers).map(([name, value]) =>
+            value.includes('$API_KEY') ? `  -H "${name}: ${value}"` : `  -H ${quote(`${name}: ${value}`)}`),
+        `  -d ${quote(JSON.stringify(http.body, null, 2))}`
+    ].join(' \\\n');
+}
+
+// --- Internals ---
+
+function resolveConfig(options: RequestOptions): LLMConfig {
+    const config = { ...getLLMConfig(options.profileId), ...options.config };
+    if (PROVIDER_CAPABILITIES[config.provider].requiresApiKey && !config.apiKey) {
+        throw new LLMError('config', 'Missing OpenAI/Gemini API Key. Please configure it in Settings.');
+    }
+    if (!config.model) {
+        throw new LLMError('config', 'No model selected. Please choose a model for this profile in Settings.');
+    }
+    // The OpenAI SDK refuses an empty key even when the server ignores it
+    return { ...config, apiKey: config.apiKey || 'local' };
+}
+
+// Local servers and some proxies don't report token counts, so estimate them
+function withUsage(request: CompletionRequest, result: CompletionResult): CompletionResult {
+    if (result.usage) return result;
+    const completionText = result.text
+        + (result.reasoning || '')
+        + result.toolCalls.map(call => call.name + call.arguments).join('');
+    return {
+        ...result,
+        usage: {
+            model: result.model,
+            promptTokens: estimateMessagesTokens(request.messages),
+            completionTokens: estimateTokens(completionText),
+            estimated: true
+        }
+    };
+}
+
+async function withRetry<T>(
+    options: RequestOptions,
+    adapter: ProviderAdapter,
+    run: (signal: AbortSignal) => Promise<T>,
+    canRetry: () => boolean = () => true
+): Promise<T> {
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+        // Fresh controller per attempt so a timeout only cancels the attempt it belongs to
+        const controller = new AbortController();
+        let timedOut = false;
+        const onAbort = () => controller.abort();
+        options.signal?.addEventListener('abort', onAbort);
+        if (options.signal?.aborted) controller.abort();
+
+        const timeoutId = options.timeoutMs
+            ? setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, options.timeoutMs)
+            : undefined;
+
+        try {
+            return await run(controller.signal);
+        } catch (error) {
+            const normalized = normalizeError(error, adapter, timedOut);
+            if (!normalized.retryable || attempt >= maxRetries || !canRetry() || options.signal?.aborted) {
+                throw normalized;
+            }
+            console.warn(`LLM request failed (${normalized.kind}), retrying...`, normalized.message);
+            await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+        } finally {
+            clearTimeout(timeoutId);
+            options.signal?.removeEventListener('abort', onAbort);
+        }
+    }
+}
+
+function normalizeError(error: unknown, adapter: ProviderAdapter, timedOut: boolean): LLMError {
+    if (error instanceof LLMError) return error;
+    if (timedOut) {
+        return new LLMError('timeout', 'The model took too long to respond.');
+    }
+
+    const fromAdapter = adapter.normalizeError?.(error);
+    if (fromAdapter) return fromAdapter;
+
+    if ((error as any)?.name === 'AbortError') {
+        return new LLMError('aborted', 'Request was cancelled.');
+    }
+    if (error instanceof TypeError) {
+        // fetch() rejects with a TypeError on DNS/CORS/connection failures
+        return new LLMError('network', 'Could not reach the API. Please check the Base URL and your connection.');
+    }
+
+    const message = (error as any)?.message || String(error);
+    return new LLMError('unknown', message);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
@@ -0,0 +1,105 @@
+// Reading web pages: their text, fetched straight from the browser, and the passages of it
+// that matter for a question. Sites that block cross-origin requests can't be read.
+
+export interface PageText {
+    title: string;
+    url: string; // After redirects
+    text: string;
+}
+
+// Readable text of an HTML page, without scripts, styles and page chrome
+export function htmlToText(html: string): { title: string; text: string } {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll('script, style, noscript, svg, iframe, nav, header, footer, aside, form').forEach(el => el.remove());
+    const root = doc.querySelector('main, article') || doc.body;
+    return {
+        title: doc.title.trim(),
+        text: (root?.textContent || '').replace(/[ \t]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim()
+    };
+}
+
+export async function fetchPageText(url: string, signal?: AbortSignal): Promise<PageText> {
+    if (!/^https?:\/\//i.test(url)) {
+        throw new Error(`"${url}" is not an http(s) URL`);
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(url, { signal, redirect: 'follow' });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        // fetch only says "Failed to fetch" for CORS and network errors alike
+        throw new Error('The page could not be loaded from the browser. The site may not allow cross-origin requests.');
+    }
+    if (!response.ok) {
+        throw new Error(`The page returned HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.text();
+    const contentType = response.headers.get('content-type') || '';
+    const { title, text } = contentType.includes('html') ? htmlToText(body) : { title: '', text: body.trim() };
+    return { title, url: response.url || url, text };
+}
+
+const CHUNK_CHARS = 800;
+
+// Paragraph-aligned chunks of about CHUNK_CHARS; longer paragraphs are cut at sentence ends
+export function splitIntoChunks(text: string, size = CHUNK_CHARS): string[] {
+    const pieces = text
+        .split(/\n+/)
+        .flatMap(paragraph => paragraph.length > size ? paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph] : [paragraph])
+        .map(piece => piece.trim())
+        .filter(Boolean);
+
+    const chunks: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+        if (current && current.length + piece.length + 1 > size) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n${piece}` : piece;
+        // A single sentence longer than a chunk is cut where it is
+        while (current.length > size) {
+            chunks.push(current.slice(0, size));
+            current = current.slice(size);
+        }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'are', 'was', 'what', 'how', 'why', 'who', 'with', 'from', 'that', 'this', 'does', 'into', 'about', 'which', 'when', 'their', 'there', 'have', 'has']);
+
+const terms = (text: string): string[] =>
+    text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(term => term.length > 2 && !STOP_WORDS.has(term));
+
+// Relevance of each chunk to the question: the question's terms it contains, rarer terms
+// across the chunks counting more, so boilerplate rarely wins. 0 when no term matches.
+export function scoreChunks(chunks: string[], question: string): number[] {
+    const queryTerms = [...new Set(terms(question))];
+    const chunkTerms = chunks.map(chunk => terms(chunk));
+    const documentFrequency = new Map(queryTerms.map(term =>
+        [term, chunkTerms.filter(words => words.includes(term)).length]));
+
+    return chunkTerms.map(words => queryTerms.reduce((sum, term) => {
+        const count = words.filter(word => word === term).length;
+        if (count === 0) return sum;
+        const idf = Math.log(1 + chunks.length / (documentFrequency.get(term) || 1));
+        // Repeats help, but less than a new term
+        return sum + idf * (1 + Math.log(count));
+    }, 0));
+}
+
+// Chunks most relevant to the question, best first
+export function rankChunks(chunks: string[], question: string, limit: number): string[] {
+    if (terms(question).length === 0) return chunks.slice(0, limit);
+    const scores = scoreChunks(chunks, question);
+
+    return chunks
+        .map((chunk, index) => ({ chunk, index, score: scores[index] }))
+        .filter(ranked => ranked.score > 0)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, limit)
+        .map(ranked => ranked.chunk);
+}
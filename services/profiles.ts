@@ -0,0 +1,93 @@
+import { ReasoningMode } from '../types';
+import { ProviderCapabilities, ProviderType } from './providers/types';
+
+// Named model profiles (key, base URL, model, default reasoning mode) stored in localStorage.
+// Chat nodes reference a profile by id; anything without a profile uses the default one.
+
+export interface ModelProfile {
+    id: string;
+    name: string;
+    provider: ProviderType;
+    apiKey: string;
+    baseURL: string;
+    model: string;
+    reasoningMode: ReasoningMode;
+    contextWindow?: number; // Tokens; detected from the model name when unset
+}
+
+// Used when a profile leaves the base URL or model blank
+export const PROVIDER_DEFAULTS: Record<ProviderType, { label: string; baseURL: string; model: string }> = {
+    openai: { label: 'OpenAI-compatible', baseURL: 'https://openrouter.ai/api/v1', model: 'gemini-1.5-flash' },
+    anthropic: { label: 'Anthropic', baseURL: 'https://api.anthropic.com/v1', model: 'claude-sonnet-4-5' },
+    gemini: { label: 'Google Gemini', baseURL: '', model: 'gemini-2.5-flash' },
+    local: { label: 'Local server (Ollama, llama.cpp, LM Studio)', baseURL: 'http://localhost:11434/v1', model: '' }
+};
+
+export const PROVIDER_CAPABILITIES: Record<ProviderType, ProviderCapabilities> = {
+    openai: { requiresApiKey: true, tools: true, nativeSearch: false, nativeSearchWithTools: false, reasoning: true },
+    anthropic: { requiresApiKey: true, tools: true, nativeSearch: true, nativeSearchWithTools: true, reasoning: true },
+    gemini: { requiresApiKey: true, tools: true, nativeSearch: true, nativeSearchWithTools: false, reasoning: true },
+    // Local models vary too much in tool/reasoning support to rely on either
+    local: { requiresApiKey: false, tools: false, nativeSearch: false, nativeSearchWithTools: false, reasoning: false }
+};
+
+const PROFILES_KEY = 'model_profiles';
+const DEFAULT_PROFILE_KEY = 'default_profile_id';
+
+export const createProfileId = () => `profile-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createProfile = (overrides: Partial<ModelProfile> = {}): ModelProfile => ({
+    id: createProfileId(),
+    name: 'New Profile',
+    provider: 'openai',
+    apiKey: '',
+    baseURL: '',
+    model: '',
+    reasoningMode: 'off',
+    ...overrides
+});
+
+// Build the first profile from the single key/url/model triple older versions stored
+const migrateLegacySettings = (): ModelProfile => createProfile({
+    id: 'default',
+    name: 'Default',
+    apiKey: localStorage.getItem('gemini_api_key') || '',
+    baseURL: localStorage.getItem('gemini_api_url') || '',
+    model: localStorage.getItem('gemini_model_name') || ''
+});
+
+export const loadProfiles = (): ModelProfile[] => {
+    const saved = localStorage.getItem(PROFILES_KEY);
+    if (saved) {
+        try {
+            const profiles = JSON.parse(saved) as ModelProfile[];
+            if (Array.isArray(profiles) && profiles.length > 0) {
+                // Profiles saved before provider selection existed are OpenAI-compatible
+                return profiles.map(p => ({ ...p, provider: p.provider || 'openai' }));
+            }
+        } catch (error) {
+            console.error('Failed to parse model profiles:', error);
+        }
+    }
+    return [migrateLegacySettings()];
+};
+
+export const getDefaultProfileId = (): string => {
+    const profiles = loadProfiles();
+    const storedId = localStorage.getItem(DEFAULT_PROFILE_KEY);
+    return profiles.some(p => p.id === storedId) ? storedId! : profiles[0].id;
+};
+
+export const saveProfiles = (profiles: ModelProfile[], defaultProfileId: string) => {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    localStorage.setItem(DEFAULT_PROFILE_KEY, defaultProfileId);
+};
+
+// Resolve a profile by id, falling back to the default profile (e.g. when a node references a deleted one)
+export const getProfile = (profileId?: string): ModelProfile => {
+    const profiles = loadProfiles();
+    const defaultId = getDefaultProfileId();
+    return profiles.find(p => p.id === profileId)
+        || profiles.find(p => p.id === defaultId)
+        || profiles[0];
+};
@@ -0,0 +1,96 @@
+// System prompt presets ("personas") stored in localStorage. A node can pick a preset, otherwise
+// the canvas default applies, otherwise the built-in default for its node type.
+// Templates may use {{variables}}, filled in when the request is built.
+
+export interface PromptPreset {
+    id: string;
+    name: string;
+    template: string;
+}
+
+export interface PromptVariables {
+    question?: string;
+    quote?: string;
+    model?: string;
+    canvas?: string;
+}
+
+const PRESETS_KEY = 'prompt_presets';
+
+export const DEFAULT_CHAT_PRESET_ID = 'researcher';
+export const DEFAULT_RESEARCH_PRESET_ID = 'academic';
+
+export const BUILT_IN_PRESETS: PromptPreset[] = [
+    {
+        id: DEFAULT_CHAT_PRESET_ID,
+        name: 'Expert Researcher',
+        template: "You are an expert researcher. Guidelines:\nBe Direct: Start the answer immediately. No filler phrases like 'Here is the answer' or 'That's a great question'.\nHigh Density: Use bullet points and bold text for key concepts.\nNo Repetition: Do not repeat the user's question or the quoted context.\nConcise: Keep the response under 200 words unless explicitly asked for a long explanation.\nContext Aware: Since the user quoted specific text, focus ONLY on that specific part, do not explain the whole concept again.\nLanguage: Respond in the same language as the user's question."
+    },
+    {
+        id: DEFAULT_RESEARCH_PRESET_ID,
+        name: 'Academic Researcher',
+        template: 'You are an academic researcher. Be comprehensive and structured. Use Markdown.'
+    },
+    {
+        id: 'tutor',
+        name: 'Patient Tutor',
+        template: 'You are a patient tutor. Explain step by step with simple examples, define new terms when they first appear and end with one short question that checks understanding. Respond in the same language as the user\'s question.'
+    }
+];
+
+// Shown in Settings next to the template editor
+export const PROMPT_VARIABLES: { name: string; description: string }[] = [
+    { name: 'date', description: "Today's date" },
+    { name: 'datetime', description: 'Current date and time' },
+    { name: 'question', description: 'The question being asked' },
+    { name: 'quote', description: 'Text quoted from the parent node (empty for root nodes)' },
+    { name: 'model', description: 'Model name of the selected profile' },
+    { name: 'canvas', description: 'Title of the current canvas' }
+];
+
+export const createPresetId = () => `preset-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const loadPresets = (): PromptPreset[] => {
+    const saved = localStorage.getItem(PRESETS_KEY);
+    if (saved) {
+        try {
+            const presets = JSON.parse(saved) as PromptPreset[];
+            if (Array.isArray(presets) && presets.length > 0) return presets;
+        } catch (error) {
+            console.error('Failed to parse prompt presets:', error);
+        }
+    }
+    return BUILT_IN_PRESETS;
+};
+
+export const savePresets = (presets: PromptPreset[]) => {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+// Node override, then canvas default, then the built-in default. A deleted preset falls through.
+export const resolvePreset = (
+    nodePresetId: string | undefined,
+    canvasPresetId: string | undefined,
+    fallbackId: string = DEFAULT_CHAT_PRESET_ID
+): PromptPreset => {
+    const presets = loadPresets();
+    return presets.find(p => p.id === nodePresetId)
+        || presets.find(p => p.id === canvasPresetId)
+        || presets.find(p => p.id === fallbackId)
+        || BUILT_IN_PRESETS.find(p => p.id === fallbackId)!;
+};
+
+// Unknown variables are left as they are so a typo stays visible in the request inspector
+export const renderPrompt = (template: string, variables: PromptVariables): string => {
+    const now = new Date();
+    const values: Record<string, string> = {
+        date: now.toLocaleDateString(),
+        datetime: now.toLocaleString(),
+        question: variables.question || '',
+        quote: variables.quote || '',
+        model: variables.model || '',
+        canvas: variables.canvas || ''
+    };
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+        name in values ? values[name] : match);
+};
@@ -0,0 +1,278 @@
+import {
+    ChatMessage,
+    CompletionRequest,
+    LLMConfig,
+    LLMError,
+    ProviderAdapter,
+    ThinkingBlock,
+    ToolCall,
+    REASONING_BUDGETS,
+    errorFromStatus,
+    parseToolArguments
+} from './types';
+import { readSSE } from './sse';
+
+// Anthropic Messages API, called directly from the browser.
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+const AUTO_THINKING_BUDGET = 2048;
+
+const STOP_REASONS: Record<string, string> = {
+    'end_turn': 'stop',
+    'stop_sequence': 'stop',
+    'tool_use': 'tool_calls',
+    'max_tokens': 'length'
+};
+
+function buildBody(request: CompletionRequest, model: string, stream: boolean) {
+    const systemParts = request.messages
+        .filter(m => m.role === 'system' && m.content)
+        .map(m => m.content as string);
+    if (request.json) {
+        // No JSON mode in the Messages API, so ask for it explicitly
+        systemParts.push('Respond with a single valid JSON object and nothing else.');
+    }
+
+    const body: any = {
+        model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        messages: toAnthropicMessages(request.messages),
+        stream
+    };
+    if (systemParts.length > 0) body.system = systemParts.join('\n\n');
+
+    const tools: any[] = (request.tools || []).map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters
+    }));
+    if (request.webSearch) {
+        tools.push({ type: 'web_search_20250305', name: 'web_search', max_uses: 5 });
+    }
+    if (tools.length > 0) body.tools = tools;
+    if (tools.length > 0 && request.toolChoice === 'none') body.tool_choice = { type: 'none' };
+
+    // Extended thinking: the budget counts towards max_tokens, so grow max_tokens to keep room for the answer
+    const reasoningMode = request.reasoningMode || 'off';
+    if (reasoningMode !== 'off') {
+        const budget = reasoningMode === 'auto' ? AUTO_THINKING_BUDGET : REASONING_BUDGETS[reasoningMode];
+        body.thinking = { type: 'enabled', budget_tokens: budget };
+        body.max_tokens = budget + body.max_tokens;
+    } else if (request.temperature !== undefined) {
+        // temperature is not allowed together with extended thinking
+        body.temperature = request.temperature;
+    }
+
+    return body;
+}
+
+function toAnthropicMessages(messages: ChatMessage[]) {
+    const result: { role: 'user' | 'assistant'; content: any[] }[] = [];
+
+    // Consecutive turns of the same role (e.g. several tool results) are merged into one message
+    const push = (role: 'user' | 'assistant', blocks: any[]) => {
+        if (blocks.length === 0) return;
+        const last = result[result.length - 1];
+        if (last && last.role === role) {
+            last.content.push(...blocks);
+        } else {
+            result.push({ role, content: blocks });
+        }
+    };
+
+    for (const message of messages) {
+        if (message.role === 'system') continue;
+
+        if (message.role === 'tool') {
+            push('user', [{
+                type: 'tool_result',
+                tool_use_id: message.toolCallId,
+                content: message.content || ''
+            }]);
+            continue;
+        }
+
+        // Signed thinking goes first, before the text and the tool calls it led to
+        const blocks: any[] = message.role === 'assistant' ? [...(message.thinkingBlocks || [])] : [];
+        if (message.content) blocks.push({ type: 'text', text: message.content });
+        for (const call of message.toolCalls || []) {
+            blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: parseToolArguments(call.arguments) });
+        }
+        push(message.role, blocks);
+    }
+
+    return result;
+}
+
+const endpoint = (config: LLMConfig) => `${config.baseURL.replace(/\/$/, '')}/messages`;
+
+const buildHeaders = (config: LLMConfig): Record<string, string> => ({
+    'Content-Type': 'application/json',
+    'x-api-key': config.apiKey,
+    'anthropic-version': ANTHROPIC_VERSION,
+    'anthropic-dangerous-direct-browser-access': 'true'
+});
+
+async function send(config: LLMConfig, body: unknown, signal: AbortSignal) {
+    const response = await fetch(endpoint(config), {
+        method: 'POST',
+        headers: buildHeaders(config),
+        body: JSON.stringify(body),
+        signal
+    });
+
+    if (!response.ok) {
+        let detail = response.statusText;
+        try {
+            const json = await response.json();
+            detail = json?.error?.message || detail;
+        } catch {
+            // Non-JSON error body, keep the status text
+        }
+        throw errorFromStatus(response.status, detail);
+    }
+
+    return response;
+}
+
+function errorFromEvent(error: { type?: string; message?: string }): LLMError {
+    const message = error?.message || 'Unknown streaming error';
+    if (error?.type === 'overloaded_error' || error?.type === 'api_error') {
+        return new LLMError('server', `Provider error: ${message}`);
+    }
+    if (error?.type === 'rate_limit_error') {
+        return new LLMError('rate_limit', 'Rate limited by the provider. Please wait a moment and try again.');
+    }
+    return new LLMError('unknown', message);
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+    async complete(request, config, signal) {
+        const model = request.model || config.model;
+        const response = await send(config, buildBody(request, model, false), signal);
+        const json = await response.json();
+
+        let text = '';
+        let reasoning = '';
+        const thinkingBlocks: ThinkingBlock[] = [];
+        const toolCalls: ToolCall[] = [];
+        for (const block of json.content || []) {
+            if (block.type === 'text') text += block.text;
+            if (block.type === 'thinking') {
+                reasoning += block.thinking;
+                thinkingBlocks.push({ type: 'thinking', thinking: block.thinking, signature: block.signature });
+            }
+            if (block.type === 'redacted_thinking') thinkingBlocks.push({ type: 'redacted_thinking', data: block.data });
+            if (block.type === 'tool_use') {
+                toolCalls.push({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) });
+            }
+        }
+
+        return {
+            text,
+            reasoning: reasoning || undefined,
+            thinkingBlocks: thinkingBlocks.length > 0 ? thinkingBlocks : undefined,
+            toolCalls,
+            finishReason: STOP_REASONS[json.stop_reason] || json.stop_reason || null,
+            model: json.model || model,
+            usage: json.usage ? {
+                model: json.model || model,
+                promptTokens: json.usage.input_tokens || 0,
+                completionTokens: json.usage.output_tokens || 0
+            } : undefined
+        };
+    },
+
+    async stream(request, config, handlers, signal) {
+        const model = request.model || config.model;
+        const response = await send(config, buildBody(request, model, true), signal);
+
+        let text = '';
+        let reasoning = '';
+        let finishReason: string | null = null;
+        let responseModel = model;
+        let promptTokens: number | undefined;
+        let completionTokens = 0;
+        // Only client tools are collected; server tools (web search) are executed by Anthropic
+        const toolCallsByIndex = new Map<number, ToolCall>();
+        const thinkingByIndex = new Map<number, ThinkingBlock>();
+
+        for await (const { data } of readSSE(response)) {
+            const event = JSON.parse(data);
+
+            switch (event.type) {
+                case 'message_start':
+                    responseModel = event.message?.model || responseModel;
+                    promptTokens = event.message?.usage?.input_tokens;
+                    break;
+                case 'content_block_start':
+                    if (event.content_block?.type === 'thinking') {
+                        thinkingByIndex.set(event.index, { type: 'thinking', thinking: '', signature: '' });
+                    } else if (event.content_block?.type === 'redacted_thinking') {
+                        thinkingByIndex.set(event.index, { type: 'redacted_thinking', data: event.content_block.data });
+                    } else if (event.content_block?.type === 'tool_use') {
+                        toolCallsByIndex.set(event.index, {
+                            id: event.content_block.id,
+                            name: event.content_block.name,
+                            arguments: ''
+                        });
+                    }
+                    break;
+                case 'content_block_delta':
+                    if (event.delta?.type === 'text_delta') {
+                        text += event.delta.text;
+                        handlers.onText?.(event.delta.text, text);
+                    } else if (event.delta?.type === 'thinking_delta') {
+                        reasoning += event.delta.thinking;
+                        const block = thinkingByIndex.get(event.index);
+                        if (block) block.thinking += event.delta.thinking;
+                        handlers.onReasoning?.(event.delta.thinking, reasoning);
+                    } else if (event.delta?.type === 'signature_delta') {
+                        const block = thinkingByIndex.get(event.index);
+                        if (block) block.signature = (block.signature || '') + event.delta.signature;
+                    } else if (event.delta?.type === 'input_json_delta') {
+                        const call = toolCallsByIndex.get(event.index);
+                        if (call) call.arguments += event.delta.partial_json;
+                    }
+                    break;
+                case 'message_delta':
+                    if (event.delta?.stop_reason) {
+                        finishReason = STOP_REASONS[event.delta.stop_reason] || event.delta.stop_reason;
+                    }
+                    // output_tokens is cumulative
+                    if (event.usage?.output_tokens !== undefined) completionTokens = event.usage.output_tokens;
+                    break;
+                case 'error':
+                    throw errorFromEvent(event.error);
+            }
+        }
+
+        const toolCalls = [...toolCallsByIndex.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([, call]) => ({ ...call, arguments: call.arguments || '{}' }));
+        const thinkingBlocks = [...thinkingByIndex.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([, block]) => block);
+
+        return {
+            text,
+            reasoning: reasoning || undefined,
+            thinkingBlocks: thinkingBlocks.length > 0 ? thinkingBlocks : undefined,
+            toolCalls,
+            finishReason,
+            model: responseModel,
+            usage: promptTokens !== undefined
+                ? { model: responseModel, promptTokens, completionTokens }
+                : undefined
+        };
+    },
+
+    describe(request, config, stream) {
+        return {
+            url: endpoint(config),
+            headers: buildHeaders(config),
+            body: buildBody(request, request.model || config.model, stream)
+        };
+    }
+};
@@ -0,0 +1,219 @@
+import { ApiError, Content, FunctionCallingConfigMode, GenerateContentConfig, GenerateContentResponse, GoogleGenAI, Part } from '@google/genai';
+import {
+    ChatMessage,
+    CompletionRequest,
+    CompletionResult,
+    LLMConfig,
+    ProviderAdapter,
+    StreamHandlers,
+    ToolCall,
+    REASONING_BUDGETS,
+    createToolCallId,
+    errorFromStatus,
+    parseToolArguments
+} from './types';
+
+// Gemini generateContent API through the official @google/genai SDK.
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+function createClient(config: LLMConfig) {
+    return new GoogleGenAI({
+        apiKey: config.apiKey,
+        httpOptions: config.baseURL ? { baseUrl: config.baseURL } : undefined
+    });
+}
+
+function buildConfig(request: CompletionRequest, signal?: AbortSignal): GenerateContentConfig {
+    const systemText = request.messages
+        .filter(m => m.role === 'system' && m.content)
+        .map(m => m.content)
+        .join('\n\n');
+
+    const config: GenerateContentConfig = signal ? { abortSignal: signal } : {};
+    if (systemText) config.systemInstruction = systemText;
+    if (request.maxTokens !== undefined) config.maxOutputTokens = request.maxTokens;
+    if (request.temperature !== undefined) config.temperature = request.temperature;
+    if (request.json) config.responseMimeType = 'application/json';
+
+    const tools: GenerateContentConfig['tools'] = [];
+    if (request.tools && request.tools.length > 0) {
+        tools.push({
+            functionDeclarations: request.tools.map(tool => ({
+                name: tool.name,
+                description: tool.description,
+                parametersJsonSchema: tool.parameters
+            }))
+        });
+    }
+    // Grounding can't be combined with function declarations; callers send web_search instead
+    if (request.webSearch && tools.length === 0) {
+        tools.push({ googleSearch: {} });
+    }
+    if (tools.length > 0) config.tools = tools;
+    if (request.tools?.length && request.toolChoice === 'none') {
+        config.toolConfig = { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } };
+    }
+
+    // -1 lets the model pick its own thinking budget; includeThoughts returns thought summaries
+    const reasoningMode = request.reasoningMode || 'off';
+    if (reasoningMode === 'auto') {
+        config.thinkingConfig = { thinkingBudget: -1, includeThoughts: true };
+    } else if (reasoningMode !== 'off') {
+        config.thinkingConfig = { thinkingBudget: REASONING_BUDGETS[reasoningMode], includeThoughts: true };
+    }
+
+    return config;
+}
+
+function toGeminiContents(messages: ChatMessage[]): Content[] {
+    const contents: Content[] = [];
+
+    // Gemini expects alternating turns, so consecutive parts for the same role are merged
+    const push = (role: 'user' | 'model', parts: Part[]) => {
+        if (parts.length === 0) return;
+        const last = contents[contents.length - 1];
+        if (last && last.role === role) {
+            last.parts!.push(...parts);
+        } else {
+            contents.push({ role, parts });
+        }
+    };
+
+    for (const message of messages) {
+        if (message.role === 'system') continue;
+
+        if (message.role === 'tool') {
+            push('user', [{
+                functionResponse: {
+                    id: message.toolCallId,
+                    name: message.name || 'tool',
+                    response: { result: message.content || '' }
+                }
+            }]);
+            continue;
+        }
+
+        const parts: Part[] = [];
+        if (message.content) parts.push({ text: message.content });
+        for (const call of message.toolCalls || []) {
+            parts.push({
+                functionCall: { id: call.id, name: call.name, args: parseToolArguments(call.arguments) },
+                thoughtSignature: call.thoughtSignature
+            });
+        }
+        push(message.role === 'assistant' ? 'model' : 'user', parts);
+    }
+
+    return contents;
+}
+
+// Collects answer text, thoughts and function calls across streamed (or single) responses
+function createAccumulator(model: string) {
+    let text = '';
+    let reasoning = '';
+    let finishReason: string | null = null;
+    let responseModel = model;
+    let usage: GenerateContentResponse['usageMetadata'];
+    const toolCalls: ToolCall[] = [];
+
+    return {
+        add(response: GenerateContentResponse, handlers: StreamHandlers = {}) {
+            if (response.modelVersion) responseModel = response.modelVersion;
+            // Streamed chunks carry running totals, the last one wins
+            if (response.usageMetadata) usage = response.usageMetadata;
+            const candidate = response.candidates?.[0];
+            if (candidate?.finishReason) finishReason = candidate.finishReason.toLowerCase();
+
+            for (const part of candidate?.content?.parts || []) {
+                if (part.text && part.thought) {
+                    reasoning += part.text;
+                    handlers.onReasoning?.(part.text, reasoning);
+                } else if (part.text) {
+                    text += part.text;
+                    handlers.onText?.(part.text, text);
+                }
+                if (part.functionCall?.name) {
+                    toolCalls.push({
+                        id: part.functionCall.id || createToolCallId(),
+                        name: part.functionCall.name,
+                        arguments: JSON.stringify(part.functionCall.args ?? {}),
+                        thoughtSignature: part.thoughtSignature
+                    });
+                }
+            }
+        },
+        result(): CompletionResult {
+            return {
+                text,
+                reasoning: reasoning || undefined,
+                toolCalls,
+                finishReason: toolCalls.length > 0 ? 'tool_calls' : finishReason,
+                model: responseModel,
+                usage: usage?.promptTokenCount !== undefined ? {
+                    model: responseModel,
+                    promptTokens: usage.promptTokenCount,
+                    // Thinking tokens are billed as output
+                    completionTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0)
+                } : undefined
+            };
+        }
+    };
+}
+
+export const geminiAdapter: ProviderAdapter = {
+    async complete(request, config, signal) {
+        const model = request.model || config.model;
+        const response = await createClient(config).models.generateContent({
+            model,
+            contents: toGeminiContents(request.messages),
+            config: buildConfig(request, signal)
+        });
+
+        const accumulator = createAccumulator(model);
+        accumulator.add(response);
+        return accumulator.result();
+    },
+
+    async stream(request, config, handlers, signal) {
+        const model = request.model || config.model;
+        const responses = await createClient(config).models.generateContentStream({
+            model,
+            contents: toGeminiContents(request.messages),
+            config: buildConfig(request, signal)
+        });
+
+        const accumulator = createAccumulator(model);
+        for await (const response of responses) {
+            accumulator.add(response, handlers);
+        }
+        return accumulator.result();
+    },
+
+    // The REST request the SDK makes; its camelCase config splits into top-level fields and generationConfig
+    describe(request, config, stream) {
+        const model = request.model || config.model;
+        const { systemInstruction, tools, toolConfig, ...generationConfig } = buildConfig(request);
+        const body: Record<string, unknown> = { contents: toGeminiContents(request.messages) };
+        if (systemInstruction) body.systemInstruction = { parts: [{ text: systemInstruction }] };
+        if (tools) body.tools = tools;
+        if (toolConfig) body.toolConfig = toolConfig;
+        if (Object.keys(generationConfig).length > 0) body.generationConfig = generationConfig;
+
+        return {
+            url: `${(config.baseURL || DEFAULT_BASE_URL).replace(/\/$/, '')}/v1beta/models/${model}:${stream ? 'streamGenerateContent?alt=sse' : 'generateContent'}`,
+            headers: {
+                'Content-Type': 'application/json',
+                'x-goog-api-key': config.apiKey
+            },
+            body
+        };
+    },
+
+    normalizeError(error) {
+        if (error instanceof ApiError) {
+            return errorFromStatus(error.status, error.message);
+        }
+        return undefined;
+    }
+};
@@ -0,0 +1,217 @@
+import OpenAI from 'openai';
+import {
+    ChatMessage,
+    CompletionRequest,
+    LLMConfig,
+    LLMError,
+    ProviderAdapter,
+    ToolCall,
+    REASONING_BUDGETS,
+    createToolCallId,
+    errorFromStatus
+} from './types';
+
+// OpenAI-compatible Chat Completions (OpenAI, OpenRouter, DeepSeek, proxies...)
+
+function createClient(config: LLMConfig) {
+    return new OpenAI({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+        dangerouslyAllowBrowser: true,
+        maxRetries: 0 // Retries are handled by the LLM service so every provider behaves the same
+    });
+}
+
+function buildParams(request: CompletionRequest, model: string) {
+    const params: any = {
+        model,
+        messages: request.messages.map(toOpenAIMessage),
+    };
+
+    if (request.maxTokens !== undefined) params.max_tokens = request.maxTokens;
+    if (request.temperature !== undefined) params.temperature = request.temperature;
+    if (request.json) params.response_format = { type: 'json_object' };
+
+    if (request.tools && request.tools.length > 0) {
+        params.tools = request.tools.map(tool => ({
+            type: 'function',
+            function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters
+            }
+        }));
+        params.tool_choice = request.toolChoice ?? 'auto';
+    }
+
+    // Reasoning Parameters for OpenRouter/DeepSeek/etc. The JS SDK has no extra_body,
+    // unknown params are sent in the request body as they are
+    const reasoningMode = request.reasoningMode || 'off';
+    if (reasoningMode === 'auto') {
+        params.include_reasoning = true;
+    } else if (reasoningMode !== 'off') {
+        params.top_k = 50;
+        params.thinking = {
+            budget: REASONING_BUDGETS[reasoningMode],
+            type: "enabled"
+        };
+        params.include_reasoning = true;
+    }
+
+    return params;
+}
+
+// Non-standard field: OpenRouter uses `reasoning`, DeepSeek and most local servers `reasoning_content`
+const readReasoning = (message: unknown): string => {
+    const fields = message as { reasoning?: unknown; reasoning_content?: unknown } | undefined;
+    const value = fields?.reasoning ?? fields?.reasoning_content;
+    return typeof value === 'string' ? value : '';
+};
+
+function toOpenAIMessage(message: ChatMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+    if (message.role === 'tool') {
+        return {
+            role: 'tool',
+            tool_call_id: message.toolCallId || createToolCallId(),
+            content: message.content || ''
+        };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+        return {
+            role: 'assistant',
+            content: message.content,
+            tool_calls: message.toolCalls.map(call => ({
+                id: call.id,
+                type: 'function',
+                function: { name: call.name, arguments: call.arguments }
+            }))
+        };
+    }
+
+    return { role: message.role, content: message.content || '' } as OpenAI.Chat.Completions.ChatCompletionMessageParam;
+}
+
+export const openaiAdapter: ProviderAdapter = {
+    async complete(request, config, signal) {
+        const client = createClient(config);
+        const model = request.model || config.model;
+        const params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming = {
+            ...buildParams(request, model),
+            stream: false
+        };
+        const response = await client.chat.completions.create(params, { signal });
+        const choice = response.choices[0];
+
+        return {
+            text: choice?.message?.content || '',
+            reasoning: readReasoning(choice?.message) || undefined,
+            toolCalls: (choice?.message?.tool_calls || [])
+                .filter(call => call.type === 'function')
+                .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments })),
+            finishReason: choice?.finish_reason || null,
+            model: response.model || model,
+            usage: response.usage ? {
+                model: response.model || model,
+                promptTokens: response.usage.prompt_tokens,
+                completionTokens: response.usage.completion_tokens
+            } : undefined
+        };
+    },
+
+    async stream(request, config, handlers, signal) {
+        const client = createClient(config);
+        const model = request.model || config.model;
+        const params: OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming = {
+            ...buildParams(request, model),
+            stream: true,
+            stream_options: { include_usage: true }
+        };
+        const chunks = await client.chat.completions.create(params, { signal });
+
+        let text = '';
+        let reasoning = '';
+        let finishReason: string | null = null;
+        let responseModel = model;
+        let usage: OpenAI.CompletionUsage | undefined;
+        const toolCallsByIndex = new Map<number, ToolCall>();
+
+        for await (const chunk of chunks) {
+            if (chunk.model) responseModel = chunk.model;
+            // Usage arrives in a final chunk without choices
+            if (chunk.usage) usage = chunk.usage;
+            const choice = chunk.choices[0];
+            if (!choice) continue;
+
+            const reasoningDelta = readReasoning(choice.delta);
+            if (reasoningDelta) {
+                reasoning += reasoningDelta;
+                handlers.onReasoning?.(reasoningDelta, reasoning);
+            }
+
+            const content = choice.delta?.content || '';
+            if (content) {
+                text += content;
+                handlers.onText?.(content, text);
+            }
+
+            // Tool call arguments arrive in fragments keyed by index
+            for (const part of choice.delta?.tool_calls || []) {
+                const existing = toolCallsByIndex.get(part.index) || { id: '', name: '', arguments: '' };
+                if (part.id) existing.id = part.id;
+                if (part.function?.name) existing.name = part.function.name;
+                if (part.function?.arguments) existing.arguments += part.function.arguments;
+                toolCallsByIndex.set(part.index, existing);
+            }
+
+            if (choice.finish_reason) finishReason = choice.finish_reason;
+        }
+
+        const toolCalls = [...toolCallsByIndex.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([, call]) => ({ ...call, id: call.id || createToolCallId() }));
+
+        return {
+            text,
+            reasoning: reasoning || undefined,
+            toolCalls,
+            finishReason,
+            model: responseModel,
+            usage: usage ? {
+                model: responseModel,
+                promptTokens: usage.prompt_tokens,
+                completionTokens: usage.completion_tokens
+            } : undefined
+        };
+    },
+
+    describe(request, config, stream) {
+        const params = buildParams(request, request.model || config.model);
+        return {
+            url: `${config.baseURL.replace(/\/$/, '')}/chat/completions`,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${config.apiKey}`
+            },
+            body: stream
+                ? { ...params, stream: true, stream_options: { include_usage: true } }
+                : { ...params, stream: false }
+        };
+    },
+
+    normalizeError(error) {
+        if (error instanceof OpenAI.APIUserAbortError) {
+            return new LLMError('aborted', 'Request was cancelled.');
+        }
+        if (error instanceof OpenAI.APIConnectionTimeoutError) {
+            return new LLMError('timeout', 'The model took too long to respond.');
+        }
+        if (error instanceof OpenAI.APIConnectionError) {
+            return new LLMError('network', 'Could not reach the API. Please check the Base URL and your connection.');
+        }
+        if (error instanceof OpenAI.APIError) {
+            return errorFromStatus(error.status, error.message || 'Unknown API error');
+        }
+        return undefined;
+    }
+};
@@ -0,0 +1,55 @@
+// Minimal Server-Sent Events reader for fetch() responses.
+
+export interface SSEEvent {
+    event: string;
+    data: string;
+}
+
+export async function* readSSE(response: Response): AsyncGenerator<SSEEvent> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            // Events are separated by a blank line
+            let boundary = buffer.search(/\r?\n\r?\n/);
+            while (boundary !== -1) {
+                const rawEvent = buffer.slice(0, boundary);
+                buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+                const parsed = parseEvent(rawEvent);
+                if (parsed) yield parsed;
+                boundary = buffer.search(/\r?\n\r?\n/);
+            }
+        }
+
+        const trailing = parseEvent(buffer);
+        if (trailing) yield trailing;
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+function parseEvent(raw: string): SSEEvent | null {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of raw.split(/\r?\n/)) {
+        if (!line || line.startsWith(':')) continue;
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+        if (field === 'event') event = value;
+        else if (field === 'data') dataLines.push(value);
+    }
+
+    if (dataLines.length === 0) return null;
+    return { event, data: dataLines.join('\n') };
+}
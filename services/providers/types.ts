@@ -0,0 +1,151 @@
+import { ReasoningMode, TokenUsage } from '../../types';
+
+// Types shared by the LLM service and the provider adapters.
+
+export type ProviderType = 'openai' | 'anthropic' | 'gemini' | 'local';
+
+// What a provider can do beyond plain chat; the UI disables the rest
+export interface ProviderCapabilities {
+    requiresApiKey: boolean;
+    tools: boolean;        // Function calling (our client-side web_search tool)
+    nativeSearch: boolean; // Provider-side search grounding
+    nativeSearchWithTools: boolean; // Grounding in the same request as function tools
+    reasoning: boolean;    // Thinking / reasoning budgets
+}
+
+export interface LLMConfig {
+    provider: ProviderType;
+    apiKey: string;
+    baseURL: string;
+    model: string;
+}
+
+export interface ToolCall {
+    id: string;
+    name: string;
+    arguments: string; // Raw JSON string as produced by the model
+    thoughtSignature?: string; // Gemini: opaque signature that must be echoed back with the call
+}
+
+// Anthropic: a signed (or redacted) thinking block. An assistant turn that called tools must
+// start with its thinking blocks, echoed back unchanged, when extended thinking is on
+export interface ThinkingBlock {
+    type: 'thinking' | 'redacted_thinking';
+    thinking?: string;
+    signature?: string;
+    data?: string; // Encrypted content of a redacted block
+}
+
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>; // JSON schema
+}
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string | null;
+    toolCalls?: ToolCall[]; // assistant turns that requested tools
+    thinkingBlocks?: ThinkingBlock[]; // assistant turns, Anthropic only
+    toolCallId?: string;    // tool turns answering a call
+    name?: string;          // tool name for tool turns
+}
+
+export interface CompletionRequest {
+    messages: ChatMessage[];
+    model?: string; // Overrides the configured model
+    tools?: ToolDefinition[];
+    toolChoice?: 'auto' | 'none'; // 'none' keeps the tools defined (earlier turns use them) but forces a text answer
+    reasoningMode?: ReasoningMode;
+    webSearch?: boolean; // Use the provider's native search grounding (see ProviderCapabilities.nativeSearch)
+    maxTokens?: number;
+    temperature?: number;
+    json?: boolean; // Ask for a JSON object response
+}
+
+export interface CompletionResult {
+    text: string;
+    reasoning?: string; // Thinking trace, when the provider returns one
+    thinkingBlocks?: ThinkingBlock[]; // Anthropic: the blocks behind `reasoning`, with signatures
+    toolCalls: ToolCall[];
+    finishReason: string | null;
+    model: string;
+    usage?: TokenUsage; // Always filled in by the LLM service, estimated when the provider reports none
+}
+
+export interface StreamHandlers {
+    onText?: (delta: string, fullText: string) => void;
+    onReasoning?: (delta: string, fullReasoning: string) => void;
+}
+
+// The HTTP request behind a call, as shown by the request inspector
+export interface HttpRequestPreview {
+    url: string;
+    headers: Record<string, string>;
+    body: unknown;
+}
+
+export interface ProviderAdapter {
+    complete(request: CompletionRequest, config: LLMConfig, signal: AbortSignal): Promise<CompletionResult>;
+    stream(request: CompletionRequest, config: LLMConfig, handlers: StreamHandlers, signal: AbortSignal): Promise<CompletionResult>;
+    describe(request: CompletionRequest, config: LLMConfig, stream: boolean): HttpRequestPreview;
+    normalizeError?(error: unknown): LLMError | undefined;
+}
+
+export type LLMErrorKind =
+    | 'config'
+    | 'auth'
+    | 'rate_limit'
+    | 'bad_request'
+    | 'server'
+    | 'network'
+    | 'timeout'
+    | 'aborted'
+    | 'unknown';
+
+export class LLMError extends Error {
+    kind: LLMErrorKind;
+    status?: number;
+
+    constructor(kind: LLMErrorKind, message: string, status?: number) {
+        super(message);
+        this.name = 'LLMError';
+        this.kind = kind;
+        this.status = status;
+    }
+
+    get retryable() {
+        return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'network' || this.kind === 'timeout';
+    }
+}
+
+// Map an HTTP status from any provider onto the shared error kinds
+export function errorFromStatus(status: number | undefined, detail: string): LLMError {
+    if (status === 401 || status === 403) {
+        return new LLMError('auth', `Authentication failed (${status}). Please check your API key in Settings.`, status);
+    }
+    if (status === 429) {
+        return new LLMError('rate_limit', 'Rate limited by the provider. Please wait a moment and try again.', status);
+    }
+    if (status !== undefined && status >= 500) {
+        return new LLMError('server', `Provider error (${status}): ${detail}`, status);
+    }
+    return new LLMError('bad_request', `Request rejected (${status ?? 'unknown'}): ${detail}`, status);
+}
+
+// Thinking token budgets shared by every provider that supports an explicit budget
+export const REASONING_BUDGETS = {
+    'light': 1024,
+    'medium': 4096,
+    'heavy': 16384
+};
+
+export const createToolCallId = () => 'call_' + Math.random().toString(36).slice(2, 11);
+
+export const parseToolArguments = (raw: string): Record<string, unknown> => {
+    try {
+        return raw ? JSON.parse(raw) : {};
+    } catch {
+        return {};
+    }
+};
@@ -0,0 +1,175 @@
+import { Source, TokenUsage } from '../types';
+import { complete, stream } from './llm';
+import { citedSourceIds, isLocalSource, sourceHostname } from './sources';
+
+// Report mode of a research answer: the model outlines the report first, then writes it one
+// section at a time from the same context, each call knowing the whole outline so sections don't
+// repeat each other. The bibliography is not written by the model; it is formatted from the
+// sources the sections cite.
+
+const MAX_SECTIONS = 8;
+export const BIBLIOGRAPHY_HEADING = 'Bibliography';
+
+interface ReportSection {
+    heading: string;
+    focus: string; // What the section covers, for the call that writes it
+}
+
+interface ReportOutline {
+    title: string;
+    sections: ReportSection[];
+}
+
+export interface Report {
+    text: string; // Title, sections and bibliography
+    body: string; // Without the bibliography, whose [n] are not citations
+    sections: number;
+}
+
+interface ReportCallbacks {
+    onAnswerUpdate: (answer: string) => void;
+    onProgress: (label: string) => void;
+    onUsage: (usage: TokenUsage) => void;
+}
+
+export async function writeReport(
+    query: string,
+    context: string,
+    persona: string,
+    sources: Source[],
+    callbacks: ReportCallbacks,
+    signal?: AbortSignal
+): Promise<Report> {
+    callbacks.onProgress('🗂️ Outlining the report');
+    const outline = await outlineReport(query, context, callbacks.onUsage, signal);
+
+    let body = `# ${outline.title}\n\n`;
+    for (const [index, section] of outline.sections.entries()) {
+        callbacks.onProgress(`✍️ Writing section ${index + 1} of ${outline.sections.length}: ${section.heading}`);
+        const heading = `## ${section.heading}\n\n`;
+        const text = await writeSection(query, context, persona, outline, section, fullText => {
+            callbacks.onAnswerUpdate(body + heading + fullText);
+        }, callbacks.onUsage, signal);
+        body += `${heading}${text}\n\n`;
+    }
+    body = body.trimEnd();
+
+    const text = `${body}\n\n## ${BIBLIOGRAPHY_HEADING}\n\n${formatBibliography(sources, body)}`;
+    callbacks.onAnswerUpdate(text);
+    return { text, body, sections: outline.sections.length };
+}
+
+async function outlineReport(
+    query: string,
+    context: string,
+    onUsage: (usage: TokenUsage) => void,
+    signal?: AbortSignal
+): Promise<ReportOutline> {
+    const response = await complete({
+        messages: [
+            {
+                role: 'system',
+                content: `You plan a research report that answers the user's request from the sources below. Choose a title and 3 to 6 sections that follow each other logically, each with a short heading and one sentence on what it covers. Do not plan a references or bibliography section; it is added afterwards.
+
+Sources:
+${context}
+
+Return ONLY a JSON object like {"title": "Report title", "sections": [{"heading": "Section heading", "focus": "What this section covers"}]}.`
+            },
+            { role: 'user', content: query }
+        ],
+        json: true
+    }, { signal });
+    if (response.usage) onUsage(response.usage);
+
+    try {
+        const json = JSON.parse(response.text || '{}');
+        const sections: ReportSection[] = (Array.isArray(json.sections) ? json.sections : [])
+            .filter((section: any) => typeof section?.heading === 'string' && section.heading.trim() !== '')
+            .map((section: any) => ({
+                heading: section.heading.replace(/^#+\s*/, '').trim(),
+                focus: typeof section.focus === 'string' ? section.focus : ''
+            }))
+            .filter((section: ReportSection) => !/^(references|bibliography|sources)$/i.test(section.heading))
+            .slice(0, MAX_SECTIONS);
+        if (sections.length === 0) throw new Error('No sections in the outline');
+        return {
+            title: typeof json.title === 'string' && json.title.trim() ? json.title.trim() : query,
+            sections
+        };
+    } catch (e) {
+        console.warn("Failed to parse report outline JSON, writing a single section", e);
+        return { title: query, sections: [{ heading: 'Findings', focus: query }] };
+    }
+}
+
+async function writeSection(
+    query: string,
+    context: string,
+    persona: string,
+    outline: ReportOutline,
+    section: ReportSection,
+    onUpdate: (fullText: string) => void,
+    onUsage: (usage: TokenUsage) => void,
+    signal?: AbortSignal
+): Promise<string> {
+    const result = await stream({
+        messages: [
+            {
+                role: 'system',
+                content: `${persona}
+
+You are writing one section of the research report "${outline.title}", based ONLY on the provided context.
+
+Report outline:
+${outline.sections.map((s, i) => `${i + 1}. ${s.heading}${s.focus ? ` - ${s.focus}` : ''}`).join('\n')}
+
+Context:
+${context}
+
+Constraints:
+- Write only the section "${section.heading}"${section.focus ? ` (${section.focus})` : ''}; the other sections cover the rest of the outline.
+- Start with the section's text, not its heading. Use ### for sub-headings if needed.
+- Use [1], [2] format for citations at the end of relevant sentences.
+- Do not make up sources and do not add a list of references.
+`
+            },
+            { role: 'user', content: query }
+        ]
+    }, {
+        onText: (_delta, fullText) => onUpdate(stripHeading(fullText, section.heading))
+    }, { signal });
+    if (result.usage) onUsage(result.usage);
+    return stripHeading(result.text, section.heading).trim();
+}
+
+// Models often repeat the heading they were asked not to write
+const stripHeading = (text: string, heading: string) => {
+    const first = text.match(/^\s*#{1,3}\s+(.*)\n*/);
+    return first && first[1].trim().toLowerCase() === heading.toLowerCase() ? text.slice(first[0].length) : text;
+};
+
+const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+// One entry per cited source in citation order, every source when the report cites none
+export function formatBibliography(sources: Source[], body: string, accessedAt = Date.now()): string {
+    const cited = citedSourceIds(body);
+    const entries = sources.some(source => cited.has(source.id))
+        ? sources.filter(source => cited.has(source.id))
+        : sources;
+    return [...entries]
+        .sort((a, b) => Number(a.id) - Number(b.id))
+        .map(source => isLocalSource(source)
+            ? `- [${source.id}] *${source.title}*. Local document.`
+            : `- [${source.id}] ${source.title}. *${sourceHostname(source)}*. <${source.url}>. Accessed ${formatDate(source.accessedAt ?? accessedAt)}.`)
+        .join('\n');
+}
+
+// The section whose heading starts at `offset` of a report, as "Heading\n\ntext", for branching
+export function sectionAt(markdown: string, offset: number): string {
+    const rest = markdown.slice(offset);
+    const end = rest.slice(1).search(/\n#{1,2}\s/);
+    const section = end < 0 ? rest : rest.slice(0, end + 1);
+    return section.replace(/^#+\s*/, '').replace(/\n+/, '\n\n').trim();
+}
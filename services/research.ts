@@ -1,215 +1,609 @@
-import OpenAI from 'openai';
-import { ResearchStep, Source } from '../types';
+import { CitationCheck, ResearchStep, Source, TokenUsage } from '../types';
+import { CompletionRequest, complete, stream, isLLMConfigured, getLLMConfig } from './llm';
+import { DEFAULT_RESEARCH_PRESET_ID, renderPrompt, resolvePreset } from './prompts';
+import { SearchResult, isSearchConfigured, resolveSearchProvider, searchWeb } from './search';
+import { citedSourceIds, faviconUrl, isLocalSource, mergeSources } from './sources';
+import { hasDocuments, searchDocuments } from './documents';
+import { describeCitationChecks, findCitations, getVerifyCitations, verifyCitations } from './verification';
+import { getCached, setCached } from './cache';
+import { fetchPageText, rankChunks, splitIntoChunks } from './pages';
+import { writeReport } from './report';
+
+// Research runs in rounds: search, read, then ask the model what is still missing and search
+// again with its follow-up queries. After the last round, or as soon as the model finds no gaps,
+// one answer is written from every source found and its citations are checked.
+
+export interface ResearchDepth {
+    breadth: number; // Queries per round
+    rounds: number; // Search rounds, the first included
+}
+
+export const DEFAULT_RESEARCH_DEPTH: ResearchDepth = { breadth: 3, rounds: 2 };
+const RESEARCH_DEPTH_KEY = 'research_depth';
+
+export const getResearchDepth = (): ResearchDepth => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(RESEARCH_DEPTH_KEY) || '{}');
+        return {
+            breadth: saved.breadth > 0 ? saved.breadth : DEFAULT_RESEARCH_DEPTH.breadth,
+            rounds: saved.rounds > 0 ? saved.rounds : DEFAULT_RESEARCH_DEPTH.rounds
+        };
+    } catch {
+        return { ...DEFAULT_RESEARCH_DEPTH };
+    }
+};
 
-interface ResearchCallbacks {
+export const setResearchDepth = (depth: ResearchDepth) => {
+    localStorage.setItem(RESEARCH_DEPTH_KEY, JSON.stringify(depth));
+};
+
+// With full pages on, each new source's page is read and its passages most relevant to the
+// question replace the search snippet in the synthesis prompt
+const FULL_PAGES_KEY = 'research_full_pages';
+const PASSAGES_PER_SOURCE = 3;
+
+export const getReadFullPages = () => localStorage.getItem(FULL_PAGES_KEY) === 'true';
+
+export const setReadFullPages = (enabled: boolean) => {
+    localStorage.setItem(FULL_PAGES_KEY, String(enabled));
+};
+
+export interface ResearchCallbacks {
     onStepUpdate: (steps: ResearchStep[]) => void;
     onAnswerUpdate: (answer: string) => void;
     onSourcesUpdate: (sources: Source[]) => void;
+    onCitationChecks: (checks: CitationCheck[]) => void;
+    onUsage: (usage: TokenUsage) => void;
     onError: (error: string) => void;
 }
 
-const getApiKeys = () => {
-    const openaiKey = localStorage.getItem('gemini_api_key') || import.meta.env.VITE_GEMINI_API_KEY || '';
-    const openaiBaseUrl = localStorage.getItem('gemini_api_url') || import.meta.env.VITE_GEMINI_API_URL || 'https://openrouter.ai/api/v1';
-    const openaiModel = localStorage.getItem('gemini_model_name') || import.meta.env.VITE_GEMINI_MODEL_NAME || 'gemini-1.5-flash';
-    const tavilyKey = localStorage.getItem('tavily_api_key') || import.meta.env.VITE_TAVILY_API_KEY || '';
+interface ResearchOptions {
+    signal?: AbortSignal;
+    persona?: string; // Rendered prompt preset that opens the synthesis prompt
+    depth?: ResearchDepth; // Settings value when unset
+    fullPages?: boolean; // Settings value when unset
+    canvasId?: string; // Canvas whose documents are searched too
+    verifyCitations?: boolean; // Settings value when unset
+    queries?: string[]; // Approved plan for the first round; skips query generation
+    report?: boolean; // Outlined report with a bibliography instead of a free-form answer
+    inheritedSources?: Source[]; // Pool of the parent research, with content; keeps its numbers
+}
 
-    return { openaiKey, openaiBaseUrl, openaiModel, tavilyKey };
-};
+interface SearchScope {
+    web: boolean;
+    canvasId?: string; // Set when the canvas has documents
+    rawContent: boolean;
+}
 
+// Follow-up research starts from the sources of the research it branched from: new sources are
+// numbered after them, and the first round only searches for what they leave open
 export const executeDeepResearch = async (
     userQuery: string,
-    callbacks: ResearchCallbacks
+    callbacks: ResearchCallbacks,
+    options: ResearchOptions = {}
 ) => {
-    const { openaiKey, openaiBaseUrl, openaiModel, tavilyKey } = getApiKeys();
+    const { signal } = options;
+    const { breadth, rounds } = options.depth ?? getResearchDepth();
+    const fullPages = options.fullPages ?? getReadFullPages();
 
-    if (!openaiKey) {
+    if (!isLLMConfigured()) {
         callbacks.onError("Missing OpenAI/Gemini API Key. Please configure it in Settings.");
         return;
     }
 
-    if (!tavilyKey) {
-        callbacks.onError("Missing Tavily API Key. Please configure it in Settings -> Search Configuration.");
-        return;
-    }
+    const scope = await resolveSearchScope(callbacks, options, fullPages);
+    if (!scope) return;
+    const searchLabel = !scope.web ? '📄 Searching documents'
+        : scope.canvasId ? '🌐 Searching the web and documents'
+            : '🌐 Searching';
 
-    // Initialize OpenAI
-    const openai = new OpenAI({
-        apiKey: openaiKey,
-        baseURL: openaiBaseUrl,
-        dangerouslyAllowBrowser: true
-    });
+    const inherited = options.inheritedSources ?? [];
 
-    // Initial Steps
+    // Steps of later rounds are added as they start; synthesis always stays last
     const steps: ResearchStep[] = [
-        { id: '1', label: '🔍 Analyzing intent and generating queries', status: 'running' },
-        { id: '2', label: '🌐 Searching the web', status: 'pending' },
-        { id: '3', label: '📖 Reading and aggregating sources', status: 'pending' },
-        { id: '4', label: '✍️ Synthesizing final answer', status: 'pending' },
+        options.queries
+            ? {
+                id: '1',
+                label: options.queries.length > 0 ? `📝 Using ${options.queries.length} approved queries`
+                    : `📝 No new searches, answering from ${inherited.length} inherited sources`,
+                status: 'done'
+            }
+            : { id: '1', label: firstQueriesLabel(inherited), status: 'running' },
+        { id: '2', label: '✍️ Synthesizing final answer', status: 'pending' },
     ];
     callbacks.onStepUpdate([...steps]);
 
-    try {
-        // --- Step 1: Query Expansion ---
-        console.log("Step 1: Query Expansion");
-        const queries = await generateSearchQueries(openai, openaiModel, userQuery);
-
-        steps[0].status = 'done';
-        steps[1].status = 'running';
-        steps[1].label = `🌐 Searching: ${queries.join(', ')}`;
+    const addStep = (label: string): ResearchStep => {
+        const step: ResearchStep = { id: '', label, status: 'running' };
+        steps.splice(steps.length - 1, 0, step);
+        steps.forEach((s, index) => { s.id = String(index + 1); });
+        callbacks.onStepUpdate([...steps]);
+        return step;
+    };
+    const finishStep = (step: ResearchStep, label?: string) => {
+        step.status = 'done';
+        if (label) step.label = label;
         callbacks.onStepUpdate([...steps]);
+    };
 
+    try {
+        // --- Query Expansion ---
+        let queries = options.queries ?? [];
+        if (!options.queries) {
+            const generated = await generateFirstQueries(userQuery, breadth, inherited, callbacks.onUsage, signal);
+            queries = generated.queries;
+            steps[0].cached = generated.cached;
+            finishStep(steps[0], inherited.length > 0 ? describeFirstQueries(queries, inherited)
+                : generated.cached ? '🔍 Reused the queries generated for this question' : undefined);
+        }
 
-        // --- Step 2: Parallel Search ---
-        console.log("Step 2: Searching", queries);
-        const searchResults = await performSearch(queries, tavilyKey);
+        const searched: string[] = [];
+        const sources: Source[] = [...inherited];
+
+        for (let round = 1; round <= rounds && queries.length > 0; round++) {
+            const roundLabel = rounds > 1 ? `Round ${round}: ` : '';
+
+            // --- Parallel Search ---
+            const searchStep = addStep(`${roundLabel}${searchLabel}: ${queries.join(', ')}`);
+            const { results: searchResults, cached } = await performSearch(queries, scope, signal);
+            searched.push(...queries);
+            searchStep.cached = cached > 0;
+            finishStep(searchStep, cached > 0 ? `${searchStep.label} (${cached} of ${queries.length} from cache)` : undefined);
+
+            // --- Aggregation ---
+            const readStep = addStep(`📖 ${roundLabel}Processing ${searchResults.length} results`);
+            const added = collectSources(searchResults, sources);
+            callbacks.onSourcesUpdate([...sources]);
+            // Document results already are the matching passages
+            const webAdded = added.filter(source => !isLocalSource(source));
+            if (fullPages && webAdded.length > 0) {
+                readStep.label = `📖 ${roundLabel}Reading the full pages of ${webAdded.length} new sources`;
+                callbacks.onStepUpdate([...steps]);
+                const read = await readFullPages(webAdded, searchResults, [userQuery, ...queries].join(' '), signal);
+                const readById = new Map(read.map(source => [source.id, source]));
+                sources.forEach((source, index) => { sources[index] = readById.get(source.id) ?? source; });
+                callbacks.onSourcesUpdate([...sources]);
+                finishStep(readStep, `📖 ${roundLabel}Read ${read.length} of ${webAdded.length} new pages in full (${sources.length} sources total)`);
+            } else {
+                finishStep(readStep, `📖 ${roundLabel}Read ${added.length} new sources (${sources.length} total)`);
+            }
+
+            if (round === rounds) break;
+
+            // --- Gap Analysis ---
+            const gapStep = addStep(`🧩 Looking for gaps in ${sources.length} sources`);
+            const followUps = await generateFollowUpQueries(userQuery, buildContext(sources), searched, breadth, callbacks.onUsage, signal, inherited);
+            queries = followUps.queries;
+            gapStep.cached = followUps.cached;
+            finishStep(gapStep, queries.length > 0
+                ? `🧩 Found gaps, following up with ${queries.length} new queries`
+                : '🧩 No gaps found, sources cover the question');
+        }
 
-        steps[1].status = 'done';
-        steps[2].status = 'running';
-        steps[2].label = `📖 Processing ${searchResults.length} sources`;
-        callbacks.onStepUpdate([...steps]);
+        await writeAnswer(userQuery, sources, steps, callbacks, options);
+    } catch (error: any) {
+        handleResearchError(error, steps, callbacks, signal);
+    }
+};
 
+// Plan-first mode: generates the first round's queries for the user to review. Searching starts
+// with executeDeepResearch and the approved queries; undefined when stopped or failed.
+export const planResearch = async (
+    userQuery: string,
+    callbacks: ResearchCallbacks,
+    options: ResearchOptions = {}
+): Promise<string[] | undefined> => {
+    if (!isLLMConfigured()) {
+        callbacks.onError("Missing OpenAI/Gemini API Key. Please configure it in Settings.");
+        return undefined;
+    }
+    // Nothing to search with the plan, so say so before drafting it
+    if (!(await resolveSearchScope(callbacks, options, false))) return undefined;
 
-        // --- Step 3: Aggregation ---
-        console.log("Step 3: Aggregation");
-        const { context, sources } = aggregateContext(searchResults);
-        callbacks.onSourcesUpdate(sources);
+    const inherited = options.inheritedSources ?? [];
+    const steps: ResearchStep[] = [
+        { id: '1', label: firstQueriesLabel(inherited), status: 'running' },
+    ];
+    callbacks.onStepUpdate([...steps]);
 
-        steps[2].status = 'done';
-        steps[3].status = 'running';
+    try {
+        const { breadth } = options.depth ?? getResearchDepth();
+        const generated = await generateFirstQueries(userQuery, breadth, inherited, callbacks.onUsage, options.signal);
+        steps[0] = {
+            ...steps[0],
+            status: 'done',
+            cached: generated.cached,
+            label: inherited.length > 0 && generated.queries.length === 0
+                ? '📝 The inherited sources cover the question, add queries or answer from them'
+                : `📝 Drafted ${generated.queries.length} queries, review them before searching`
+        };
         callbacks.onStepUpdate([...steps]);
+        return generated.queries;
+    } catch (error: any) {
+        handleResearchError(error, steps, callbacks, options.signal);
+        return undefined;
+    }
+};
 
+// Writes a new answer from the sources a finished run saved on its node, without searching.
+// Inherited sources the last answer didn't cite are not saved on the node, so they come back in.
+export const executeResynthesis = async (
+    userQuery: string,
+    sources: Source[],
+    callbacks: ResearchCallbacks,
+    options: ResearchOptions = {}
+) => {
+    if (!isLLMConfigured()) {
+        callbacks.onError("Missing OpenAI/Gemini API Key. Please configure it in Settings.");
+        return;
+    }
 
-        // --- Step 4: Synthesis ---
-        console.log("Step 4: Synthesis");
-        await synthesizeAnswer(openai, openaiModel, userQuery, context, callbacks.onAnswerUpdate);
-
-        steps[3].status = 'done';
-        callbacks.onStepUpdate([...steps]);
+    const steps: ResearchStep[] = [
+        { id: '1', label: `💾 Using ${sources.length} saved sources, no new searches`, status: 'done', cached: true },
+        { id: '2', label: '✍️ Synthesizing final answer', status: 'pending' },
+    ];
+    callbacks.onStepUpdate([...steps]);
 
+    try {
+        await writeAnswer(userQuery, mergeSources(options.inheritedSources, sources), steps, callbacks, options);
     } catch (error: any) {
-        console.error("Research Error:", error);
-        callbacks.onError(error.message || "An unexpected error occurred during research.");
+        handleResearchError(error, steps, callbacks, options.signal);
     }
 };
 
+// Where a run can search: the web when a provider is configured, the canvas's documents when it
+// has any, with the same queries. Undefined, with the error reported, when neither.
+async function resolveSearchScope(
+    callbacks: ResearchCallbacks,
+    options: ResearchOptions,
+    rawContent: boolean
+): Promise<SearchScope | undefined> {
+    const withDocuments = options.canvasId !== undefined && await hasDocuments(options.canvasId).catch(() => false);
+    const scope: SearchScope = {
+        web: isSearchConfigured(),
+        canvasId: withDocuments ? options.canvasId : undefined,
+        rawContent
+    };
+    if (!scope.web && !scope.canvasId) {
+        callbacks.onError("Missing search provider key. Please configure Serper, Tavily, Brave or SearXNG in Settings -> Search Configuration, or attach documents to this canvas.");
+        return undefined;
+    }
+    return scope;
+}
+
+// Synthesis, the last of the steps, then the citation check. In report mode the answer is an
+// outlined report written section by section, with a bibliography of the cited sources.
+async function writeAnswer(
+    userQuery: string,
+    sources: Source[],
+    steps: ResearchStep[],
+    callbacks: ResearchCallbacks,
+    options: ResearchOptions
+) {
+    const { signal } = options;
+    const publish = () => callbacks.onStepUpdate([...steps]);
+
+    // --- Synthesis ---
+    const synthesisStep = steps[steps.length - 1];
+    synthesisStep.status = 'running';
+    publish();
+
+    const persona = options.persona
+        ?? renderPrompt(resolvePreset(undefined, undefined, DEFAULT_RESEARCH_PRESET_ID).template, { question: userQuery });
+    const context = buildContext(sources, true);
+    let answer: string;
+    if (options.report) {
+        const report = await writeReport(userQuery, context, persona, sources, {
+            onAnswerUpdate: callbacks.onAnswerUpdate,
+            onProgress: (label) => {
+                synthesisStep.label = label;
+                publish();
+            },
+            onUsage: callbacks.onUsage
+        }, signal);
+        synthesisStep.label = `✍️ Wrote a report in ${report.sections} sections`;
+        answer = report.body;
+    } else {
+        answer = await synthesizeAnswer(userQuery, context, persona, callbacks.onAnswerUpdate, callbacks.onUsage, signal);
+    }
+
+    synthesisStep.status = 'done';
+    publish();
+
+    // The node keeps what it found and the inherited sources its answer cites
+    if (options.inheritedSources?.length) {
+        const inheritedIds = new Set(options.inheritedSources.map(source => source.id));
+        const cited = citedSourceIds(answer);
+        callbacks.onSourcesUpdate(sources.filter(source => !inheritedIds.has(source.id) || cited.has(source.id)));
+    }
+
+    // --- Citation Check ---
+    // A report's bibliography comes after its body, so the markers keep their numbering
+    let checks = findCitations(answer, sources);
+    callbacks.onCitationChecks(checks);
+    if (checks.length === 0) return;
+
+    const checkStep: ResearchStep = { id: String(steps.length + 1), label: `🔎 Checking ${checks.length} citations`, status: 'running' };
+    steps.push(checkStep);
+    publish();
+    if (options.verifyCitations ?? getVerifyCitations()) {
+        try {
+            checks = await verifyCitations(checks, sources, callbacks.onUsage, signal);
+            callbacks.onCitationChecks(checks);
+        } catch (e) {
+            if (signal?.aborted) throw e;
+            // The answer stands without it
+            console.warn("Citation verification failed", e);
+        }
+    }
+    checkStep.status = 'done';
+    checkStep.label = `🔎 Citations: ${describeCitationChecks(checks)}`;
+    publish();
+}
+
+function handleResearchError(error: any, steps: ResearchStep[], callbacks: ResearchCallbacks, signal?: AbortSignal) {
+    if (signal?.aborted) {
+        // Stopped by the user: keep completed steps and the partial answer as they are
+        for (const step of steps) {
+            if (step.status === 'running') step.status = 'stopped';
+        }
+        callbacks.onStepUpdate([...steps]);
+        return;
+    }
+    console.error("Research Error:", error);
+    callbacks.onError(error.message || "An unexpected error occurred during research.");
+}
+
 // --- Helper Functions ---
 
-async function generateSearchQueries(openai: OpenAI, model: string, query: string): Promise<string[]> {
-    const response = await openai.chat.completions.create({
-        model: model, // Use configured model
-        messages: [
-            { role: 'system', content: 'You are a research assistant. Generate 3 distinct, optimized search queries to broadly cover the user\'s request. Return ONLY a JSON array of strings, e.g., ["query1", "query2", "query3"].' },
-            { role: 'user', content: query }
-        ],
-        response_format: { type: "json_object" }
-    });
+// First call of a research run, also shown by the request inspector
+export const buildQueryRequest = (query: string, breadth = getResearchDepth().breadth): CompletionRequest => ({
+    messages: [
+        { role: 'system', content: `You are a research assistant. Generate ${breadth} distinct, optimized search queries to broadly cover the user's request. Return ONLY a JSON array of strings, e.g., ["query1", "query2", "query3"].` },
+        { role: 'user', content: query }
+    ],
+    json: true
+});
+
+// JSON mode may wrap the array in an object
+function parseQueries(text: string | undefined, limit: number): string[] {
+    const json = JSON.parse(text || '[]');
+    const queries = Array.isArray(json) ? json : json.queries || json.items || [];
+    return queries.filter((q: unknown): q is string => typeof q === 'string' && q.trim() !== '').slice(0, limit);
+}
+
+interface GeneratedQueries {
+    queries: string[];
+    cached: boolean;
+}
+
+const firstQueriesLabel = (inherited: Source[]) => inherited.length > 0
+    ? `🧩 Checking ${inherited.length} inherited sources for what is new`
+    : '🔍 Analyzing intent and generating queries';
+
+const describeFirstQueries = (queries: string[], inherited: Source[]) => queries.length > 0
+    ? `🧩 Searching for what ${inherited.length} inherited sources leave open, with ${queries.length} queries`
+    : `🧩 The ${inherited.length} inherited sources cover the question, no new searches`;
+
+// A follow-up starts with gap analysis of the inherited sources instead of covering the question
+// from scratch; it may find nothing to search
+function generateFirstQueries(
+    query: string,
+    breadth: number,
+    inherited: Source[],
+    onUsage: (usage: TokenUsage) => void,
+    signal?: AbortSignal
+): Promise<GeneratedQueries> {
+    return inherited.length > 0
+        ? generateFollowUpQueries(query, buildContext(inherited), [], breadth, onUsage, signal, inherited)
+        : generateSearchQueries(query, breadth, onUsage, signal);
+}
+
+// Generated queries are cached per model, so switching models generates them anew
+const modelCacheKey = () => {
+    const config = getLLMConfig();
+    return `${config.provider}/${config.model}`;
+};
+
+async function generateSearchQueries(
+    query: string,
+    breadth: number,
+    onUsage: (usage: TokenUsage) => void,
+    signal?: AbortSignal
+): Promise<GeneratedQueries> {
+    const cacheKey = `queries:${modelCacheKey()}:${breadth}:${query}`;
+    const cached = await getCached<string[]>(cacheKey);
+    if (cached) return { queries: cached, cached: true };
+
+    const response = await complete(buildQueryRequest(query, breadth), { signal });
+    if (response.usage) onUsage(response.usage);
 
     try {
-        const content = response.choices[0].message.content || '{"queries": []}';
-        const json = JSON.parse(content);
-        const queries = json.queries || json.items || [];
-        return queries.slice(0, 3);
+        const queries = parseQueries(response.text, breadth);
+        if (queries.length === 0) return { queries: [query], cached: false };
+        await setCached(cacheKey, queries);
+        return { queries, cached: false };
     } catch (e) {
         console.warn("Failed to parse queries JSON, using raw query", e);
-        return [query];
+        return { queries: [query], cached: false };
     }
 }
 
-async function performSearch(queries: string[], apiKey: string): Promise<any[]> {
-    // No mock data allowed.
-    if (!apiKey) {
-        throw new Error("Tavily API Key is missing");
+// Queries for what the sources so far leave open; none when they already cover the question
+async function generateFollowUpQueries(
+    query: string,
+    context: string,
+    searched: string[],
+    breadth: number,
+    onUsage: (usage: TokenUsage) => void,
+    signal?: AbortSignal,
+    inherited: Source[] = []
+): Promise<GeneratedQueries> {
+    // The same searches find the same sources, so the earlier queries and the inherited pool
+    // identify the context
+    const cacheKey = `follow-ups:${modelCacheKey()}:${breadth}:${query}:${[...inherited.map(source => source.url), ...searched].join('\n')}`;
+    const cached = await getCached<string[]>(cacheKey);
+    if (cached) return { queries: cached, cached: true };
+
+    const response = await complete({
+        messages: [
+            {
+                role: 'system',
+                content: `You are a research assistant reviewing the sources found so far for the user's request. Identify facts, perspectives or details that are still missing or unclear, and write up to ${breadth} new search queries to fill those gaps.
+
+${searched.length > 0 ? `Queries already searched:\n${searched.map(q => `- ${q}`).join('\n')}\n\n` : ''}Sources found so far:
+${context}
+
+Do not repeat earlier queries. Return ONLY a JSON array of strings, or an empty array if the sources already answer the request well.`
+            },
+            { role: 'user', content: query }
+        ],
+        json: true
+    }, { signal });
+    if (response.usage) onUsage(response.usage);
+
+    try {
+        const seen = new Set(searched.map(q => q.toLowerCase()));
+        const queries = parseQueries(response.text, breadth).filter(q => !seen.has(q.toLowerCase()));
+        await setCached(cacheKey, queries);
+        return { queries, cached: false };
+    } catch (e) {
+        console.warn("Failed to parse follow-up queries JSON, stopping research", e);
+        return { queries: [], cached: false };
     }
+}
 
-    // Real Tavily Call (Parallel)
-    const promises = queries.map(async (q) => {
+// Web responses come from the cache when they can, so a re-run of the same question doesn't pay
+// for them again; `cached` counts the web searches that did
+async function performSearch(
+    queries: string[],
+    scope: SearchScope,
+    signal?: AbortSignal
+): Promise<{ results: SearchResult[]; cached: number }> {
+    // Parallel, a failed search only loses its own results
+    const attempt = async (q: string, search: () => Promise<SearchResult[]>) => {
         try {
-            const response = await fetch('https://api.tavily.com/search', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    api_key: apiKey,
-                    query: q,
-                    search_depth: "advanced",
-                    include_raw_content: false,
-                    max_results: 5
-                })
-            });
-            const data = await response.json();
-            return data.results || [];
+            return await search();
         } catch (e) {
+            if (signal?.aborted) throw e;
             console.error(`Search failed for ${q}`, e);
             return [];
         }
-    });
-
-    const results = await Promise.all(promises);
-    return results.flat();
+    };
+    let cached = 0;
+    const searchWebCached = async (q: string) => {
+        const cacheKey = `search:${resolveSearchProvider()}:${scope.rawContent ? 'full' : 'snippets'}:${q}`;
+        const hit = await getCached<SearchResult[]>(cacheKey);
+        if (hit) {
+            cached++;
+            return hit;
+        }
+        const results = await searchWeb(q, { maxResults: 5, deep: true, rawContent: scope.rawContent, signal });
+        if (results.length > 0) await setCached(cacheKey, results);
+        return results;
+    };
+    const { canvasId } = scope;
+
+    const results = await Promise.all(queries.flatMap(q => [
+        ...(canvasId ? [attempt(q, () => searchDocuments(canvasId, q))] : []),
+        ...(scope.web ? [attempt(q, () => searchWebCached(q))] : [])
+    ]));
+    return { results: results.flat(), cached };
 }
 
-function aggregateContext(searchResults: any[]): { context: string, sources: Source[] } {
-    const uniqueUrls = new Set();
-    const sources: Source[] = [];
-    let context = "";
+// Appends results whose URL is new, numbered after the sources already there (earlier rounds, inherited)
+function collectSources(searchResults: SearchResult[], sources: Source[]): Source[] {
+    const uniqueUrls = new Set(sources.map(source => source.url));
+    const added: Source[] = [];
 
     for (const result of searchResults) {
         if (uniqueUrls.has(result.url)) continue;
         uniqueUrls.add(result.url);
 
         const source: Source = {
-            id: (sources.length + 1).toString(),
+            id: String(sources.reduce((max, s) => Math.max(max, Number(s.id) || 0), 0) + 1),
             title: result.title || "Untitled",
             url: result.url,
-            // Try to get a favicon or default
-            favicon: `https://www.google.com/s2/favicons?domain=${new URL(result.url).hostname}`,
-            content: result.content
+            favicon: faviconUrl(result.url),
+            content: result.content,
+            accessedAt: Date.now()
         };
         sources.push(source);
-
-        context += `[Source ${source.id}] Title: ${source.title}\nURL: ${source.url}\nContent: ${result.content?.slice(0, 500)}...\n\n`;
+        added.push(source);
     }
 
-    return { context, sources };
+    return added;
+}
+
+// Pages the provider returned in full are not fetched again; a page that can't be read keeps its
+// snippet. Returns copies of the sources that were read, with their passages; the sources passed
+// in are already shown and stay as they are.
+async function readFullPages(
+    sources: Source[],
+    searchResults: SearchResult[],
+    question: string,
+    signal?: AbortSignal
+): Promise<Source[]> {
+    const rawByUrl = new Map(searchResults.filter(result => result.rawContent).map(result => [result.url, result.rawContent!]));
+
+    const read = await Promise.all(sources.map(async (source): Promise<Source | undefined> => {
+        let text = rawByUrl.get(source.url);
+        if (!text) {
+            try {
+                text = (await fetchPageText(source.url, signal)).text;
+            } catch (e) {
+                if (signal?.aborted) throw e;
+                console.warn(`Could not read ${source.url}`, e);
+                return undefined;
+            }
+        }
+        const passages = rankChunks(splitIntoChunks(text), question, PASSAGES_PER_SOURCE);
+        return passages.length > 0 ? { ...source, passages } : undefined;
+    }));
+    return read.filter((source): source is Source => source !== undefined);
 }
 
+// Passages, when a source has them, for the synthesis prompt; gap analysis reads the snippets.
+// A document result's content is its matching passages, so synthesis gets all of it.
+const buildContext = (sources: Source[], withPassages = false): string =>
+    sources
+        .map(source => {
+            const content = withPassages && source.passages?.length ? source.passages.join('\n...\n')
+                : withPassages && isLocalSource(source) ? source.content
+                    : `${source.content?.slice(0, 500)}...`;
+            return `[Source ${source.id}] Title: ${source.title}\nURL: ${source.url}\nContent: ${content}\n\n`;
+        })
+        .join('');
+
 async function synthesizeAnswer(
-    openai: OpenAI,
-    model: string,
     query: string,
     context: string,
-    onUpdate: (chunk: string) => void
-) {
-    const stream = await openai.chat.completions.create({
-        model: model, // Main reasoning model
+    persona: string,
+    onUpdate: (chunk: string) => void,
+    onUsage: (usage: TokenUsage) => void,
+    signal?: AbortSignal
+): Promise<string> {
+    const result = await stream({
         messages: [
             {
                 role: 'system',
-                content: `You are an academic researcher. Answer the verified user query based ONLY on the provided context.
-        
+                content: `${persona}
+
+Answer the verified user query based ONLY on the provided context.
+
 Context:
 ${context}
 
 Constraints:
 - Use [1], [2] format for citations at the end of relevant sentences.
 - Do not make up sources.
-- Be comprehensive and structured.
-- Use Markdown.
 `
             },
             { role: 'user', content: query }
-        ],
-        stream: true
-    });
-
-    let fullText = "";
-    for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || "";
-        if (content) {
-            fullText += content;
-            onUpdate(fullText);
-        }
-    }
+        ]
+    }, {
+        onText: (_delta, fullText) => onUpdate(fullText)
+    }, { signal });
+    if (result.usage) onUsage(result.usage);
+    return result.text;
 }
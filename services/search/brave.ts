@@ -0,0 +1,28 @@
+import { DEFAULT_MAX_RESULTS, SearchProviderAdapter, checkSearchResponse } from './types';
+
+// Brave Search API. It does not send CORS headers, so the dev server proxies it (vite.config.ts);
+// a production build needs a proxy of its own at the same path.
+const BASE_URL = import.meta.env.DEV ? '/brave-search' : 'https://api.search.brave.com';
+
+const stripTags = (html: string) => html.replace(/<[^>]+>/g, '');
+
+export const braveAdapter: SearchProviderAdapter = {
+    async search(query, apiKey, { maxResults = DEFAULT_MAX_RESULTS, signal }) {
+        const params = new URLSearchParams({ q: query, count: String(maxResults) });
+        const response = await fetch(`${BASE_URL}/res/v1/web/search?${params}`, {
+            headers: {
+                'Accept': 'application/json',
+                'X-Subscription-Token': apiKey
+            },
+            signal
+        });
+        await checkSearchResponse('Brave', response);
+        const data = await response.json();
+        return (data.web?.results || []).slice(0, maxResults).map((item: any) => ({
+            title: item.title || 'Untitled',
+            url: item.url,
+            // Descriptions mark matched words with <strong>
+            content: stripTags([item.description, ...(item.extra_snippets || [])].filter(Boolean).join(' '))
+        }));
+    }
+};
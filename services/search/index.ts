@@ -0,0 +1,87 @@
+import { SearchOptions, SearchProviderAdapter, SearchProviderType, SearchResult } from './types';
+import { serperAdapter } from './serper';
+import { tavilyAdapter } from './tavily';
+import { braveAdapter } from './brave';
+import { searxngAdapter } from './searxng';
+
+// Web search used by the chat web_search tool and by research nodes. The provider picked in
+// Settings is used when it has a key; otherwise the first provider that has one, so either
+// feature works with whichever key is configured.
+
+export * from './types';
+
+const PROVIDER_KEY = 'search_provider';
+
+export const SEARCH_PROVIDERS: Record<SearchProviderType, {
+    label: string;
+    storageKey: string;
+    envValue?: string; // Fallback from .env
+    description: string;
+    placeholder: string;
+}> = {
+    serper: {
+        label: 'Serper (Google)',
+        storageKey: 'serper_api_key',
+        envValue: import.meta.env.VITE_SERPER_API_KEY,
+        description: 'Google results. Get a free API key from serper.dev.',
+        placeholder: 'Enter Serper API Key (e.g., a1b2c3...)'
+    },
+    tavily: {
+        label: 'Tavily',
+        storageKey: 'tavily_api_key',
+        envValue: import.meta.env.VITE_TAVILY_API_KEY,
+        description: 'Search built for AI agents, with longer extracts per result. Get a free key from tavily.com.',
+        placeholder: 'Enter Tavily API Key'
+    },
+    brave: {
+        label: 'Brave Search',
+        storageKey: 'brave_api_key',
+        description: 'Independent index. Get a key from api.search.brave.com. The API blocks browser requests, so it works through the dev server (npm run dev) or your own proxy.',
+        placeholder: 'Enter Brave Search API Key'
+    },
+    searxng: {
+        label: 'SearXNG',
+        storageKey: 'searxng_url',
+        description: 'Self-hosted metasearch. Enter the instance URL; it needs the json format enabled and must allow cross-origin requests.',
+        placeholder: 'http://localhost:8888'
+    }
+};
+
+const ADAPTERS: Record<SearchProviderType, SearchProviderAdapter> = {
+    serper: serperAdapter,
+    tavily: tavilyAdapter,
+    brave: braveAdapter,
+    searxng: searxngAdapter
+};
+
+const PROVIDER_ORDER = Object.keys(SEARCH_PROVIDERS) as SearchProviderType[];
+
+// API key, or instance URL for SearXNG
+export const getSearchKey = (provider: SearchProviderType): string =>
+    localStorage.getItem(SEARCH_PROVIDERS[provider].storageKey) || SEARCH_PROVIDERS[provider].envValue || '';
+
+export const getPreferredSearchProvider = (): SearchProviderType => {
+    const saved = localStorage.getItem(PROVIDER_KEY) as SearchProviderType | null;
+    return saved && saved in SEARCH_PROVIDERS ? saved : 'serper';
+};
+
+export const setPreferredSearchProvider = (provider: SearchProviderType) => {
+    localStorage.setItem(PROVIDER_KEY, provider);
+};
+
+// The provider searches actually go to, undefined when no provider has a key
+export const resolveSearchProvider = (): SearchProviderType | undefined => {
+    const preferred = getPreferredSearchProvider();
+    if (getSearchKey(preferred)) return preferred;
+    return PROVIDER_ORDER.find(provider => getSearchKey(provider));
+};
+
+export const isSearchConfigured = () => resolveSearchProvider() !== undefined;
+
+export async function searchWeb(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const provider = resolveSearchProvider();
+    if (!provider) {
+        throw new Error('No search provider is configured. Add a key in Settings -> Search Configuration.');
+    }
+    return ADAPTERS[provider].search(query, getSearchKey(provider), options);
+}
@@ -0,0 +1,20 @@
+import { DEFAULT_MAX_RESULTS, SearchProviderAdapter, checkSearchResponse } from './types';
+
+// Self-hosted SearXNG. The instance must have the json format enabled in settings.yml
+// (search.formats) and allow cross-origin requests from this app.
+export const searxngAdapter: SearchProviderAdapter = {
+    async search(query, instanceUrl, { maxResults = DEFAULT_MAX_RESULTS, signal }) {
+        const params = new URLSearchParams({ q: query, format: 'json' });
+        const response = await fetch(`${instanceUrl.replace(/\/$/, '')}/search?${params}`, {
+            headers: { 'Accept': 'application/json' },
+            signal
+        });
+        await checkSearchResponse('SearXNG', response);
+        const data = await response.json();
+        return (data.results || []).slice(0, maxResults).map((item: any) => ({
+            title: item.title || 'Untitled',
+            url: item.url,
+            content: item.content || ''
+        }));
+    }
+};
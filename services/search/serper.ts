@@ -0,0 +1,24 @@
+import { DEFAULT_MAX_RESULTS, SearchProviderAdapter, checkSearchResponse } from './types';
+
+// Google results through serper.dev
+export const serperAdapter: SearchProviderAdapter = {
+    async search(query, apiKey, { maxResults = DEFAULT_MAX_RESULTS, signal }) {
+        const response = await fetch('https://google.serper.dev/search', {
+            method: 'POST',
+            headers: {
+                'X-API-KEY': apiKey,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ q: query, num: maxResults }),
+            redirect: 'follow',
+            signal
+        });
+        await checkSearchResponse('Serper', response);
+        const data = await response.json();
+        return (data.organic || []).slice(0, maxResults).map((item: any) => ({
+            title: item.title || 'Untitled',
+            url: item.link,
+            content: item.snippet || ''
+        }));
+    }
+};
@@ -0,0 +1,28 @@
+import { DEFAULT_MAX_RESULTS, SearchProviderAdapter, checkSearchResponse } from './types';
+
+export const tavilyAdapter: SearchProviderAdapter = {
+    async search(query, apiKey, { maxResults = DEFAULT_MAX_RESULTS, deep, rawContent, signal }) {
+        const response = await fetch('https://api.tavily.com/search', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                api_key: apiKey,
+                query,
+                search_depth: deep ? 'advanced' : 'basic',
+                include_raw_content: rawContent ?? false,
+                max_results: maxResults
+            }),
+            signal
+        });
+        await checkSearchResponse('Tavily', response);
+        const data = await response.json();
+        return (data.results || []).map((item: any) => ({
+            title: item.title || 'Untitled',
+            url: item.url,
+            content: item.content || '',
+            rawContent: item.raw_content || undefined
+        }));
+    }
+};
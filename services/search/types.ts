@@ -0,0 +1,38 @@
+// Shared types for web search providers. Each provider lives in its own file and maps
+// its API's results onto SearchResult.
+
+export type SearchProviderType = 'serper' | 'tavily' | 'brave' | 'searxng';
+
+export interface SearchResult {
+    title: string;
+    url: string;
+    content: string; // Snippet or extracted page text
+    rawContent?: string; // Full page text, when asked for and the provider returns it
+}
+
+export interface SearchOptions {
+    maxResults?: number;
+    deep?: boolean; // Slower, more thorough search where the provider offers one (Tavily)
+    rawContent?: boolean; // Full page text with each result where the provider offers it (Tavily)
+    signal?: AbortSignal;
+}
+
+// apiKey is the instance URL for SearXNG
+export interface SearchProviderAdapter {
+    search(query: string, apiKey: string, options: SearchOptions): Promise<SearchResult[]>;
+}
+
+export const DEFAULT_MAX_RESULTS = 5;
+
+export async function checkSearchResponse(provider: string, response: Response) {
+    if (!response.ok) {
+        let detail = response.statusText;
+        try {
+            const text = await response.text();
+            if (text) detail = text.slice(0, 200);
+        } catch {
+            // Keep the status text
+        }
+        throw new Error(`${provider} search failed (HTTP ${response.status}): ${detail}`);
+    }
+}
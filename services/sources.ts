@@ -0,0 +1,105 @@
+import { Source } from '../types';
+import { SearchResult } from './search';
+import { ancestorIds } from './context';
+
+// Numbered sources behind an answer. A branch continues the numbering of the sources it
+// inherited, so [n] points at the same page all the way down a branch.
+
+const MAX_SOURCE_CONTENT = 500;
+
+// Pages of documents attached to the canvas are cited as local:<document id>#page=<n>
+const LOCAL_PREFIX = 'local:';
+
+export const localSourceUrl = (documentId: string, page?: number) =>
+    `${LOCAL_PREFIX}${documentId}${page ? `#page=${page}` : ''}`;
+
+export const isLocalSource = (source: { url: string }) => source.url.startsWith(LOCAL_PREFIX);
+
+export const faviconUrl = (url: string): string | undefined => {
+    if (url.startsWith(LOCAL_PREFIX)) return undefined;
+    try {
+        return `https://www.google.com/s2/favicons?domain=${new URL(url).hostname}`;
+    } catch {
+        return undefined;
+    }
+};
+
+export const sourceHostname = (source: Source): string => {
+    if (isLocalSource(source)) return source.title;
+    try {
+        return new URL(source.url).hostname;
+    } catch {
+        return source.url;
+    }
+};
+
+// Sources of several lists, each id once, in citation order
+export const mergeSources = (...lists: (Source[] | undefined)[]): Source[] => {
+    const byId = new Map<string, Source>();
+    for (const source of lists.flatMap(list => list || [])) {
+        if (!byId.has(source.id)) byId.set(source.id, source);
+    }
+    return [...byId.values()].sort((a, b) => Number(a.id) - Number(b.id));
+};
+
+// Inherited sources are saved on a branch without their text (see onBranch in App); it is read
+// back from the ancestors that found them. A source whose ancestor is gone keeps title and URL.
+export function withSourceContent(
+    sources: Source[],
+    nodeId: string,
+    nodes: { id: string; data: Record<string, unknown> }[],
+    edges: { source: string; target: string }[]
+): Source[] {
+    const found = new Map<string, Source>();
+    for (const ancestorId of ancestorIds(nodeId, edges)) {
+        const data = nodes.find(node => node.id === ancestorId)?.data;
+        if (!data || ancestorId === nodeId) continue;
+        // Research nodes and the active answer of chat nodes, then the other answer versions
+        const versions = (data.responses as { sources?: Source[] }[] | undefined) || [];
+        for (const source of [data.sources as Source[] | undefined, ...versions.map(version => version.sources)].flatMap(list => list || [])) {
+            if (source.content && !found.has(source.url)) found.set(source.url, source);
+        }
+    }
+    return sources.map(source => {
+        const origin = found.get(source.url);
+        return origin ? { ...source, content: origin.content, passages: origin.passages } : source;
+    });
+}
+
+// Ids cited as [n] in an answer
+export const citedSourceIds = (text: string): Set<string> =>
+    new Set([...text.matchAll(/\[(\d+)\]/g)].map(match => match[1]));
+
+// Hands out numbers to search results as they come in; a page found twice keeps its number
+export function createSourcePool(initial: Source[] = []) {
+    const sources = [...initial];
+    const added = new Set<string>();
+    let nextId = sources.reduce((max, source) => Math.max(max, Number(source.id) || 0), 0) + 1;
+
+    return {
+        add(results: SearchResult[]): Source[] {
+            return results.map(result => {
+                let source = sources.find(s => s.url === result.url);
+                if (!source) {
+                    source = {
+                        id: String(nextId++),
+                        title: result.title,
+                        url: result.url,
+                        favicon: faviconUrl(result.url),
+                        content: result.content.slice(0, MAX_SOURCE_CONTENT)
+                    };
+                    sources.push(source);
+                }
+                added.add(source.id);
+                return source;
+            });
+        },
+        // Found during this answer or cited by it; uncited inherited sources are left out
+        forAnswer(text: string): Source[] {
+            const cited = citedSourceIds(text);
+            return sources.filter(source => added.has(source.id) || cited.has(source.id));
+        }
+    };
+}
+
+export type SourcePool = ReturnType<typeof createSourcePool>;
@@ -1,33 +1,17 @@
-import OpenAI from 'openai';
-
-const getApiConfig = () => {
-    const apiKey = localStorage.getItem('gemini_api_key') || import.meta.env.VITE_GEMINI_API_KEY || '';
-    const baseURL = localStorage.getItem('gemini_api_url') || import.meta.env.VITE_GEMINI_API_URL || 'https://openrouter.ai/api/v1';
-    const model = localStorage.getItem('gemini_model_name') || import.meta.env.VITE_GEMINI_MODEL_NAME || 'gemini-1.5-flash';
-
-    return { apiKey, baseURL, model };
-};
-
-export async function generateCanvasTitle(conversationContent: string): Promise<string> {
-    const { apiKey, baseURL, model } = getApiConfig();
-
-    if (!apiKey) {
+import { complete, isLLMConfigured, LLMError } from './llm';
+import { TokenUsage } from '../types';
+
+export async function generateCanvasTitle(
+    conversationContent: string,
+    onUsage?: (usage: TokenUsage) => void
+): Promise<string> {
+    if (!isLLMConfigured()) {
         console.warn('No API key configured for title generation');
         return `New Canvas - ${new Date().toLocaleTimeString()}`;
     }
 
     try {
-        const openai = new OpenAI({
-            apiKey,
-            baseURL,
-            dangerouslyAllowBrowser: true
-        });
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-
-        const response = await openai.chat.completions.create({
-            model,
+        const response = await complete({
             messages: [
                 {
                     role: 'system',
@@ -38,20 +22,20 @@ export async function generateCanvasTitle(conversationContent: string): Promise<
                     content: `Summarize this conversation into a short title:\n\n${conversationContent.slice(0, 500)}`
                 }
             ],
-            max_tokens: 50,
+            maxTokens: 50,
             temperature: 0.7,
         }, {
-            signal: controller.signal
+            timeoutMs: 5000, // 5 second timeout
+            maxRetries: 0
         });
 
-        clearTimeout(timeoutId);
-
-        const title = response.choices[0]?.message?.content?.trim() || `New Canvas - ${new Date().toLocaleTimeString()}`;
+        if (response.usage) onUsage?.(response.usage);
+        const title = response.text.trim() || `New Canvas - ${new Date().toLocaleTimeString()}`;
 
         // Clean up the title (remove quotes if present)
         return title.replace(/^["']|["']$/g, '').slice(0, 60); // Max 60 chars
     } catch (error: any) {
-        if (error.name === 'AbortError') {
+        if (error instanceof LLMError && error.kind === 'timeout') {
             console.warn('Title generation timed out');
         } else {
             console.error('Failed to generate title:', error);
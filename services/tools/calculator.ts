@@ -0,0 +1,153 @@
+import { ChatTool } from './types';
+
+// Arithmetic without eval: a small recursive-descent parser over numbers, + - * / % ^,
+// parentheses, a few constants and Math functions.
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    sqrt: Math.sqrt,
+    cbrt: Math.cbrt,
+    abs: Math.abs,
+    round: Math.round,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    exp: Math.exp,
+    ln: Math.log,
+    log: Math.log10,
+    log2: Math.log2,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    asin: Math.asin,
+    acos: Math.acos,
+    atan: Math.atan,
+    min: Math.min,
+    max: Math.max,
+    pow: Math.pow
+};
+
+const TOKEN_PATTERN = /\s*(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|\*\*|[-+*/%^(),])/iy;
+
+function tokenize(expression: string): string[] {
+    const tokens: string[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+    while (TOKEN_PATTERN.lastIndex < expression.length) {
+        const start = TOKEN_PATTERN.lastIndex;
+        const match = TOKEN_PATTERN.exec(expression);
+        if (!match) {
+            if (expression.slice(start).trim() === '') break;
+            throw new Error(`Unexpected character "${expression[start]}" at position ${start + 1}`);
+        }
+        tokens.push(match[1] === '**' ? '^' : match[1]);
+    }
+    return tokens;
+}
+
+export function evaluateExpression(expression: string): number {
+    const tokens = tokenize(expression);
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const next = () => tokens[position++];
+    const expect = (token: string) => {
+        if (next() !== token) throw new Error(`Expected "${token}"`);
+    };
+
+    // expression := term (('+' | '-') term)*
+    const parseExpression = (): number => {
+        let value = parseTerm();
+        while (peek() === '+' || peek() === '-') {
+            value = next() === '+' ? value + parseTerm() : value - parseTerm();
+        }
+        return value;
+    };
+
+    // term := unary (('*' | '/' | '%') unary)*
+    const parseTerm = (): number => {
+        let value = parseUnary();
+        while (peek() === '*' || peek() === '/' || peek() === '%') {
+            const operator = next();
+            const right = parseUnary();
+            value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+        }
+        return value;
+    };
+
+    // unary := ('-' | '+') unary | power
+    const parseUnary = (): number => {
+        if (peek() === '-') {
+            next();
+            return -parseUnary();
+        }
+        if (peek() === '+') {
+            next();
+            return parseUnary();
+        }
+        return parsePower();
+    };
+
+    // power := primary ('^' unary)?, right associative so 2^3^2 = 2^9
+    const parsePower = (): number => {
+        const base = parsePrimary();
+        if (peek() === '^') {
+            next();
+            return Math.pow(base, parseUnary());
+        }
+        return base;
+    };
+
+    const parsePrimary = (): number => {
+        const token = next();
+        if (token === undefined) throw new Error('Unexpected end of expression');
+        if (token === '(') {
+            const value = parseExpression();
+            expect(')');
+            return value;
+        }
+        if (/^[\d.]/.test(token)) return parseFloat(token);
+
+        const name = token.toLowerCase();
+        if (Object.hasOwn(FUNCTIONS, name)) {
+            expect('(');
+            const args = [parseExpression()];
+            while (peek() === ',') {
+                next();
+                args.push(parseExpression());
+            }
+            expect(')');
+            return FUNCTIONS[name](...args);
+        }
+        if (Object.hasOwn(CONSTANTS, name)) return CONSTANTS[name];
+        throw new Error(`Unknown name "${token}"`);
+    };
+
+    const value = parseExpression();
+    if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}"`);
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`The result is not a finite number (${value})`);
+    return value;
+}
+
+export const calculatorTool: ChatTool = {
+    label: 'Calculator',
+    definition: {
+        name: 'calculator',
+        description: `Evaluate an arithmetic expression exactly instead of calculating in your head. Supports + - * / % ^, parentheses, pi, e and the functions ${Object.keys(FUNCTIONS).join(', ')} (trigonometry in radians, log is base 10, ln is natural).`,
+        parameters: {
+            type: 'object',
+            properties: {
+                expression: {
+                    type: 'string',
+                    description: 'The expression to evaluate, e.g. "(1.07 ^ 10 - 1) * 2500"'
+                }
+            },
+            required: ['expression']
+        }
+    },
+
+    async execute(args) {
+        const expression = String(args.expression || '');
+        const value = evaluateExpression(expression);
+        return `${expression} = ${value}`;
+    }
+};
@@ -0,0 +1,79 @@
+import { ChatNodeData, NoteNodeData, ResearchNodeData } from '../../types';
+import { ChatTool } from './types';
+
+// Keyword search over the notes, questions and answers on the current canvas
+
+const MAX_MATCHES = 5;
+const SNIPPET_CHARS = 600;
+
+const NODE_KINDS: Record<string, string> = {
+    chatNode: 'Chat',
+    researchNode: 'Research',
+    noteNode: 'Note'
+};
+
+function nodeText(type: string | undefined, data: Record<string, unknown>): string {
+    if (type === 'noteNode') return (data as NoteNodeData).content || '';
+    if (type === 'researchNode') {
+        const research = data as ResearchNodeData;
+        return [research.query, research.answer].filter(Boolean).join('\n\n');
+    }
+    const chat = data as ChatNodeData;
+    return [chat.inputText, chat.aiResponse].filter(Boolean).join('\n\n');
+}
+
+// The passage around the first matching term
+function snippet(text: string, terms: string[]): string {
+    const lower = text.toLowerCase();
+    const first = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index >= 0));
+    const start = Math.max(0, first - SNIPPET_CHARS / 3);
+    const passage = text.slice(start, start + SNIPPET_CHARS).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '...' : ''}${passage}${start + SNIPPET_CHARS < text.length ? '...' : ''}`;
+}
+
+export const canvasSearchTool: ChatTool = {
+    label: 'Search canvas',
+    definition: {
+        name: 'search_canvas',
+        description: "Search the notes, questions and answers on the user's current canvas. Use it when the user refers to something they wrote or explored earlier.",
+        parameters: {
+            type: 'object',
+            properties: {
+                query: {
+                    type: 'string',
+                    description: 'Keywords to look for'
+                }
+            },
+            required: ['query']
+        }
+    },
+
+    async execute(args, { nodeId, nodes }) {
+        const query = String(args.query || '');
+        const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 1);
+        if (terms.length === 0) throw new Error('The query has no keywords');
+
+        // Nodes ranked by how many of the terms they contain, then by how often
+        const matches = nodes
+            .filter(node => node.id !== nodeId)
+            .map(node => {
+                const text = nodeText(node.type, node.data);
+                const lower = text.toLowerCase();
+                const counts = terms.map(term => lower.split(term).length - 1);
+                return {
+                    node,
+                    text,
+                    matched: counts.filter(count => count > 0).length,
+                    total: counts.reduce((sum, count) => sum + count, 0)
+                };
+            })
+            .filter(match => match.matched > 0)
+            .sort((a, b) => b.matched - a.matched || b.total - a.total)
+            .slice(0, MAX_MATCHES);
+
+        if (matches.length === 0) return `Nothing on the canvas matches "${query}".`;
+        return `Canvas matches for "${query}":\n\n` + matches.map(({ node, text }, index) =>
+            `${index + 1}. [${NODE_KINDS[node.type || ''] || 'Node'} ${node.id}] ${snippet(text, terms)}`
+        ).join('\n\n');
+    }
+};
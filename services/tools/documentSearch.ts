@@ -0,0 +1,35 @@
+import { hasDocuments, searchDocuments } from '../documents';
+import { ChatTool } from './types';
+
+// Searches the documents attached to the node's canvas; results are cited like web results
+export const documentSearchTool: ChatTool = {
+    label: 'Search documents',
+    citesSources: true,
+    definition: {
+        name: 'search_documents',
+        description: "Search the files the user attached to this canvas (reports, papers, notes). Use it for questions about the user's own documents.",
+        parameters: {
+            type: 'object',
+            properties: {
+                query: {
+                    type: 'string',
+                    description: 'Keywords to look for'
+                }
+            },
+            required: ['query']
+        }
+    },
+
+    async execute(args, { canvasId, addSources }) {
+        const query = String(args.query || '');
+        if (!canvasId || !(await hasDocuments(canvasId))) {
+            return 'No documents are attached to this canvas. Tell the user they can add files from the Documents panel.';
+        }
+
+        const results = await searchDocuments(canvasId, query);
+        if (results.length === 0) return `No passages in the attached documents match "${query}".`;
+        const ids = addSources ? addSources(results).map(source => source.id) : results.map((_, index) => String(index + 1));
+        return `Document passages for "${query}":\n` +
+            results.map((item, index) => `[${ids[index]}] ${item.title}: ${item.content}`).join('\n\n');
+    }
+};
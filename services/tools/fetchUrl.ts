@@ -0,0 +1,31 @@
+import { fetchPageText } from '../pages';
+import { ChatTool } from './types';
+
+const MAX_PAGE_CHARS = 8000;
+
+export const fetchUrlTool: ChatTool = {
+    label: 'Read URL',
+    definition: {
+        name: 'fetch_url',
+        description: 'Read the text content of a web page. Use it for links the user gives you or that a search returned.',
+        parameters: {
+            type: 'object',
+            properties: {
+                url: {
+                    type: 'string',
+                    description: 'Full http(s) URL of the page'
+                }
+            },
+            required: ['url']
+        }
+    },
+
+    async execute(args, { signal }) {
+        const { title, url, text } = await fetchPageText(String(args.url || ''), signal);
+        const content = text.length > MAX_PAGE_CHARS
+            ? `${text.slice(0, MAX_PAGE_CHARS)}\n[Page truncated after ${MAX_PAGE_CHARS} characters]`
+            : text;
+
+        return `${title ? `${title}\n` : ''}${url}\n\n${content || '(The page has no readable text.)'}`;
+    }
+};
@@ -0,0 +1,45 @@
+import { ToolCall, parseToolArguments } from '../llm';
+import { ChatTool, ToolContext } from './types';
+import { webSearchTool } from './webSearch';
+import { calculatorTool } from './calculator';
+import { fetchUrlTool } from './fetchUrl';
+import { canvasSearchTool } from './canvasSearch';
+import { documentSearchTool } from './documentSearch';
+import { mcpChatTools } from './mcp';
+
+// Tools chat nodes can offer the model, by name. web_search follows the node's Globe toggle;
+// every other tool is switched on per node from its tools menu. Tools of MCP servers are read
+// from Settings on every lookup, so edits there apply without reloading.
+
+export * from './types';
+export * from './mcp';
+
+export const WEB_SEARCH_TOOL = webSearchTool.definition;
+
+const registry = new Map<string, ChatTool>();
+
+export const registerTool = (tool: ChatTool) => {
+    registry.set(tool.definition.name, tool);
+};
+
+[webSearchTool, calculatorTool, fetchUrlTool, canvasSearchTool, documentSearchTool].forEach(registerTool);
+
+const allTools = (): ChatTool[] => [...registry.values(), ...mcpChatTools()];
+
+export const getTool = (name: string): ChatTool | undefined =>
+    registry.get(name) || mcpChatTools().find(tool => tool.definition.name === name);
+
+// Tools listed in a node's tools menu
+export const listOptionalTools = (): ChatTool[] =>
+    allTools().filter(tool => tool.definition.name !== WEB_SEARCH_TOOL.name);
+
+// Names that are no longer registered are skipped
+export const resolveTools = (names: string[] = []): ChatTool[] =>
+    names.map(getTool).filter((tool): tool is ChatTool => tool !== undefined && tool !== webSearchTool);
+
+// Errors are thrown so the agent loop records the call as failed and tells the model
+export async function executeToolCall(call: ToolCall, context: ToolContext): Promise<string> {
+    const tool = getTool(call.name);
+    if (!tool) throw new Error(`Unknown tool "${call.name}"`);
+    return tool.execute(parseToolArguments(call.arguments), context);
+}
@@ -0,0 +1,331 @@
+import { readSSE } from '../providers/sse';
+import { ChatTool } from './types';
+
+// Client for Model Context Protocol servers configured in Settings. Speaks JSON-RPC over the
+// Streamable HTTP transport (POST, answered with JSON or an event stream) or the older
+// HTTP+SSE transport (GET an event stream, POST to the endpoint it announces).
+// The tool list of each server is saved with its config, so requests (and the inspector)
+// can be built without connecting; the connection is only opened when a tool is called.
+
+export type McpTransport = 'http' | 'sse';
+
+export interface McpToolInfo {
+    name: string;
+    title?: string;
+    description?: string;
+    inputSchema?: Record<string, unknown>;
+}
+
+export interface McpServerConfig {
+    id: string;
+    name: string;
+    url: string;
+    transport: McpTransport;
+    authToken?: string; // Sent as a Bearer token
+    enabled: boolean;
+    tools?: McpToolInfo[]; // From the last successful connection
+}
+
+interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: number;
+    method?: string;
+    params?: Record<string, unknown>;
+    result?: any;
+    error?: { code: number; message: string };
+}
+
+interface McpSession {
+    request: (method: string, params: Record<string, unknown>, signal?: AbortSignal) => Promise<any>;
+    notify: (method: string) => Promise<void>;
+    close: () => void;
+}
+
+const SERVERS_KEY = 'mcp_servers';
+const PROTOCOL_VERSION = '2025-06-18';
+const CLIENT_INFO = { name: 'fugue-chat-tree', version: '0.0.0' };
+
+export const createMcpServerId = () => `mcp-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const loadMcpServers = (): McpServerConfig[] => {
+    const saved = localStorage.getItem(SERVERS_KEY);
+    if (!saved) return [];
+    try {
+        const servers = JSON.parse(saved) as McpServerConfig[];
+        return Array.isArray(servers) ? servers : [];
+    } catch (error) {
+        console.error('Failed to parse MCP servers:', error);
+        return [];
+    }
+};
+
+// Open connections may point at an old URL or token, so they are dropped
+export const saveMcpServers = (servers: McpServerConfig[]) => {
+    localStorage.setItem(SERVERS_KEY, JSON.stringify(servers));
+    closeMcpSessions();
+};
+
+const authHeaders = (server: McpServerConfig): Record<string, string> =>
+    server.authToken ? { Authorization: `Bearer ${server.authToken}` } : {};
+
+function unwrap(server: McpServerConfig, message: JsonRpcMessage) {
+    if (message.error) throw new Error(`${server.name}: ${message.error.message} (${message.error.code})`);
+    return message.result;
+}
+
+async function checkResponse(server: McpServerConfig, response: Response) {
+    if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`${server.name} returned HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+}
+
+function openHttpSession(server: McpServerConfig): McpSession {
+    let sessionId: string | undefined;
+    let nextId = 1;
+
+    const post = async (message: JsonRpcMessage, signal?: AbortSignal) => {
+        const response = await fetch(server.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Accept': 'application/json, text/event-stream',
+                'MCP-Protocol-Version': PROTOCOL_VERSION,
+                ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+                ...authHeaders(server)
+            },
+            body: JSON.stringify(message),
+            signal
+        });
+        await checkResponse(server, response);
+        // Only readable if the server lists it in Access-Control-Expose-Headers
+        sessionId = response.headers.get('Mcp-Session-Id') || sessionId;
+        return response;
+    };
+
+    return {
+        async request(method, params, signal) {
+            const id = nextId++;
+            const response = await post({ jsonrpc: '2.0', id, method, params }, signal);
+            if (!(response.headers.get('Content-Type') || '').includes('text/event-stream')) {
+                return unwrap(server, await response.json());
+            }
+            // The stream may carry notifications before the response
+            for await (const { data } of readSSE(response)) {
+                const message = JSON.parse(data) as JsonRpcMessage;
+                if (message.id === id) return unwrap(server, message);
+            }
+            throw new Error(`${server.name} closed the stream without answering ${method}`);
+        },
+        async notify(method) {
+            await post({ jsonrpc: '2.0', method });
+        },
+        close() {
+            if (!sessionId) return;
+            fetch(server.url, {
+                method: 'DELETE',
+                headers: { 'Mcp-Session-Id': sessionId, ...authHeaders(server) }
+            }).catch(() => { /* The server may not support ending sessions */ });
+        }
+    };
+}
+
+async function openSseSession(server: McpServerConfig): Promise<McpSession> {
+    const controller = new AbortController();
+    const pending = new Map<number, { resolve: (message: JsonRpcMessage) => void; reject: (error: Error) => void }>();
+    let nextId = 1;
+    let closed = false;
+
+    const response = await fetch(server.url, {
+        headers: { 'Accept': 'text/event-stream', ...authHeaders(server) },
+        signal: controller.signal
+    });
+    await checkResponse(server, response);
+
+    // The first event names the URL that messages are posted to
+    const events = readSSE(response);
+    const first = await events.next();
+    if (first.done || first.value.event !== 'endpoint') {
+        controller.abort();
+        throw new Error(`${server.name} did not announce a message endpoint`);
+    }
+    const endpoint = new URL(first.value.data, server.url).toString();
+
+    // Responses arrive on the event stream and are matched to requests by id
+    (async () => {
+        try {
+            for await (const { event, data } of events) {
+                if (event !== 'message') continue;
+                const message = JSON.parse(data) as JsonRpcMessage;
+                if (message.id !== undefined && pending.has(message.id)) {
+                    pending.get(message.id)!.resolve(message);
+                    pending.delete(message.id);
+                }
+            }
+        } catch {
+            // Aborted by close() or dropped by the server, both end up below
+        } finally {
+            closed = true;
+            pending.forEach(({ reject }) => reject(new Error(`Connection to ${server.name} was closed`)));
+            pending.clear();
+        }
+    })();
+
+    const post = async (message: JsonRpcMessage) => {
+        const result = await fetch(endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders(server) },
+            body: JSON.stringify(message)
+        });
+        await checkResponse(server, result);
+    };
+
+    return {
+        request(method, params, signal) {
+            // Nothing would read the answer any more
+            if (closed) return Promise.reject(new Error(`Connection to ${server.name} was closed`));
+            const id = nextId++;
+            return new Promise((resolve, reject) => {
+                pending.set(id, {
+                    resolve: message => {
+                        try {
+                            resolve(unwrap(server, message));
+                        } catch (error) {
+                            reject(error);
+                        }
+                    },
+                    reject
+                });
+                signal?.addEventListener('abort', () => {
+                    pending.delete(id);
+                    reject(signal.reason);
+                }, { once: true });
+                post({ jsonrpc: '2.0', id, method, params }).catch(error => {
+                    pending.delete(id);
+                    reject(error);
+                });
+            });
+        },
+        notify: method => post({ jsonrpc: '2.0', method }),
+        close: () => controller.abort()
+    };
+}
+
+// One initialized session per server, shared by every node
+const sessions = new Map<string, Promise<McpSession>>();
+
+async function openSession(server: McpServerConfig): Promise<McpSession> {
+    const session = server.transport === 'sse' ? await openSseSession(server) : openHttpSession(server);
+    try {
+        await session.request('initialize', {
+            protocolVersion: PROTOCOL_VERSION,
+            capabilities: {},
+            clientInfo: CLIENT_INFO
+        });
+        await session.notify('notifications/initialized');
+    } catch (error) {
+        session.close();
+        throw error;
+    }
+    return session;
+}
+
+function getSession(server: McpServerConfig): Promise<McpSession> {
+    let session = sessions.get(server.id);
+    if (!session) {
+        session = openSession(server);
+        sessions.set(server.id, session);
+        session.catch(() => sessions.delete(server.id));
+    }
+    return session;
+}
+
+function dropSession(serverId: string) {
+    sessions.get(serverId)?.then(session => session.close()).catch(() => { /* Never opened */ });
+    sessions.delete(serverId);
+}
+
+export function closeMcpSessions() {
+    [...sessions.keys()].forEach(dropSession);
+}
+
+// Connects (again) and reads every page of the server's tool list
+export async function listMcpTools(server: McpServerConfig): Promise<McpToolInfo[]> {
+    dropSession(server.id);
+    const session = await getSession(server);
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+    do {
+        const result = await session.request('tools/list', cursor ? { cursor } : {});
+        tools.push(...(result?.tools || []));
+        cursor = result?.nextCursor;
+    } while (cursor);
+    return tools;
+}
+
+// Text of a tool result; other content types are described rather than dropped silently
+function formatContent(content: any[]): string {
+    return content.map(item => {
+        if (item.type === 'text') return item.text;
+        if (item.type === 'resource') return item.resource?.text ?? `[Resource ${item.resource?.uri}]`;
+        if (item.type === 'resource_link') return `[Resource ${item.name || ''} ${item.uri}]`;
+        return `[${item.type} content omitted]`;
+    }).join('\n\n');
+}
+
+export async function callMcpTool(
+    server: McpServerConfig,
+    name: string,
+    args: Record<string, unknown>,
+    signal: AbortSignal
+): Promise<string> {
+    let result;
+    try {
+        const session = await getSession(server);
+        result = await session.request('tools/call', { name, arguments: args }, signal);
+    } catch (error) {
+        // An expired session fails every call, so the next one reconnects
+        if (!signal.aborted) dropSession(server.id);
+        throw error;
+    }
+
+    const text = result?.content ? formatContent(result.content)
+        : result?.structuredContent ? JSON.stringify(result.structuredContent, null, 2)
+        : '';
+    if (result?.isError) throw new Error(text || `${name} failed on ${server.name}`);
+    return text || '(The tool returned no content.)';
+}
+
+interface McpToolRef {
+    server: McpServerConfig;
+    tool: McpToolInfo;
+}
+
+// Names the model sees must match ^[a-zA-Z0-9_-]{1,64}$ for every provider and stay unique across
+// servers. Sanitizing and truncating can give two tools one name; the later one then gets a number.
+function mcpToolsByModelName(servers: McpServerConfig[]): Map<string, McpToolRef> {
+    const byName = new Map<string, McpToolRef>();
+    for (const server of servers) {
+        for (const tool of server.tools || []) {
+            const base = `mcp_${server.name}_${tool.name}`.replace(/[^a-zA-Z0-9_-]+/g, '_').slice(0, 64);
+            let name = base;
+            for (let n = 2; byName.has(name); n++) name = `${base.slice(0, 64 - String(n).length - 1)}_${n}`;
+            byName.set(name, { server, tool });
+        }
+    }
+    return byName;
+}
+
+// Tools of every enabled server, in the shape of the built-in tools
+export const mcpChatTools = (): ChatTool[] =>
+    [...mcpToolsByModelName(loadMcpServers().filter(server => server.enabled))]
+        .map(([name, { server, tool }]): ChatTool => ({
+            label: tool.title || tool.name,
+            group: server.name,
+            definition: {
+                name,
+                description: tool.description || `${tool.name} from the ${server.name} MCP server`,
+                parameters: tool.inputSchema || { type: 'object', properties: {} }
+            },
+            execute: (args, { signal }) => callMcpTool(server, tool.name, args, signal)
+        }));
@@ -0,0 +1,22 @@
+import { Source } from '../../types';
+import { ToolDefinition } from '../llm';
+import { SearchResult } from '../search';
+
+// A tool the model can call from a chat node: the schema sent to the provider plus the code
+// that runs it in the browser. Register new tools in ./index.ts.
+
+export interface ToolContext {
+    signal: AbortSignal;
+    nodeId: string; // Node that made the call
+    nodes: { id: string; type?: string; data: Record<string, unknown> }[];
+    canvasId?: string; // Canvas the node is on, for its attached documents
+    addSources?: (results: SearchResult[]) => Source[]; // Numbers search results for citation
+}
+
+export interface ChatTool {
+    definition: ToolDefinition;
+    label: string; // Shown in the node's tools menu
+    group?: string; // Heading in the tools menu, e.g. the MCP server the tool comes from
+    citesSources?: boolean; // Results are numbered sources the answer should cite
+    execute: (args: Record<string, unknown>, context: ToolContext) => Promise<string>;
+}
@@ -0,0 +1,49 @@
+import { SEARCH_PROVIDERS, resolveSearchProvider, searchWeb } from '../search';
+import { ChatTool } from './types';
+
+// Runs through the configured search provider; without one the model is told to ask for a key
+export const webSearchTool: ChatTool = {
+    label: 'Web search',
+    citesSources: true,
+    definition: {
+        name: 'web_search',
+        description: 'Search the internet for up-to-date information',
+        parameters: {
+            type: 'object',
+            properties: {
+                query: {
+                    type: 'string',
+                    description: 'The search query to find the latest information'
+                }
+            },
+            required: ['query']
+        }
+    },
+
+    async execute(args, { signal, addSources }) {
+        const query = (args.query || args.q || "latest info") as string;
+        const provider = resolveSearchProvider();
+
+        if (!provider) {
+            return `[SYSTEM MESSAGE]: This is a simulated search result. Real search is disabled because no search provider key was found in settings.
+Current System Time: ${new Date().toLocaleString()}
+User Query: "${query}"
+
+INSTRUCTIONS:
+1. Inform the user that they need to add a search provider key (Serper, Tavily, Brave or SearXNG) in Settings to enable real internet search.
+2. Answering based on your internal knowledge only.`;
+        }
+
+        const results = await searchWeb(query, { signal });
+
+        // Format results for AI, numbered the way the answer should cite them
+        if (results.length === 0) {
+            return `No results found for "${query}".`;
+        }
+        const ids = addSources ? addSources(results).map(source => source.id) : results.map((_, index) => String(index + 1));
+        return `Search Results for "${query}" (${SEARCH_PROVIDERS[provider].label}):\n` +
+            results.map((item, index) =>
+                `[${ids[index]}] ${item.title} (${item.url}): ${item.content}`
+            ).join('\n');
+    }
+};
@@ -0,0 +1,104 @@
+import { ChatMessage } from './providers/types';
+import { TokenUsage } from '../types';
+
+// Token accounting: local estimates for providers that don't report usage, the user's
+// per-model price table (localStorage) and helpers to total usage for nodes, subtrees and canvases.
+
+export interface ModelPrice {
+    model: string; // Matched against the model name reported by the provider
+    inputPerMillion: number; // USD per 1M prompt tokens
+    outputPerMillion: number; // USD per 1M completion tokens
+}
+
+export interface UsageTotals {
+    promptTokens: number;
+    completionTokens: number;
+    cost: number; // USD, only calls with a matching price
+    unpriced: number; // Calls whose model has no price entry
+    estimated: boolean; // At least one call was counted locally
+}
+
+const PRICES_KEY = 'model_prices';
+
+// Roughly 4 characters per token for English text; CJK text is closer to 1 token per character
+export const estimateTokens = (text: string): number => {
+    if (!text) return 0;
+    const cjk = (text.match(/[\u3000-\u9fff\uac00-\ud7af]/g) || []).length;
+    return Math.ceil(cjk + (text.length - cjk) / 4);
+};
+
+export const estimateMessagesTokens = (messages: ChatMessage[]): number =>
+    messages.reduce((sum, message) => {
+        const toolText = (message.toolCalls || []).map(call => call.name + call.arguments).join('');
+        // A few tokens of per-message overhead for role markers
+        return sum + 4 + estimateTokens(message.content || '') + estimateTokens(toolText);
+    }, 0);
+
+export const loadPrices = (): ModelPrice[] => {
+    const saved = localStorage.getItem(PRICES_KEY);
+    if (!saved) return [];
+    try {
+        const prices = JSON.parse(saved);
+        return Array.isArray(prices) ? prices : [];
+    } catch (error) {
+        console.error('Failed to parse model prices:', error);
+        return [];
+    }
+};
+
+export const savePrices = (prices: ModelPrice[]) => {
+    localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+};
+
+// Providers often report a longer name than configured (e.g. "google/gemini-2.5-flash-001"),
+// so fall back to the longest price entry contained in the reported name
+export const findPrice = (model: string, prices: ModelPrice[]): ModelPrice | undefined => {
+    const name = model.toLowerCase();
+    const exact = prices.find(p => p.model.toLowerCase() === name);
+    if (exact) return exact;
+    return prices
+        .filter(p => p.model && name.includes(p.model.toLowerCase()))
+        .sort((a, b) => b.model.length - a.model.length)[0];
+};
+
+export const sumUsage = (entries: TokenUsage[], prices: ModelPrice[] = loadPrices()): UsageTotals => {
+    const totals: UsageTotals = { promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0, estimated: false };
+    for (const entry of entries) {
+        totals.promptTokens += entry.promptTokens;
+        totals.completionTokens += entry.completionTokens;
+        if (entry.estimated) totals.estimated = true;
+
+        const price = findPrice(entry.model, prices);
+        if (price) {
+            totals.cost += (entry.promptTokens * price.inputPerMillion + entry.completionTokens * price.outputPerMillion) / 1_000_000;
+        } else {
+            totals.unpriced++;
+        }
+    }
+    return totals;
+};
+
+// Usage recorded on any node type (chat and research nodes carry a `usage` list)
+export const getNodeUsage = (data: Record<string, unknown>): TokenUsage[] =>
+    Array.isArray(data.usage) ? data.usage as TokenUsage[] : [];
+
+export const formatTokens = (count: number): string =>
+    count >= 1000 ? `${(count / 1000).toFixed(count >= 100_000 ? 0 : 1)}k` : String(count);
+
+export const formatCost = (cost: number): string =>
+    cost === 0 ? '$0' : cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+
+// Short label plus a tooltip with the breakdown, shared by nodes, subtrees and the canvas list
+export const describeUsage = (totals: UsageTotals) => {
+    const tokens = totals.promptTokens + totals.completionTokens;
+    const priced = totals.unpriced === 0 || totals.cost > 0;
+    const label = `${totals.estimated ? '~' : ''}${formatTokens(tokens)} tok${priced ? ` · ${formatCost(totals.cost)}` : ''}`;
+    const details = [
+        `Prompt: ${totals.promptTokens.toLocaleString()} tokens`,
+        `Completion: ${totals.completionTokens.toLocaleString()} tokens`,
+        priced ? `Cost: $${totals.cost.toFixed(4)}` : '',
+        totals.unpriced > 0 ? `${totals.unpriced} call(s) without a price in Settings` : '',
+        totals.estimated ? 'Some counts are local estimates' : ''
+    ].filter(Boolean).join('\n');
+    return { tokens, label, details };
+};
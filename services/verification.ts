@@ -0,0 +1,128 @@
+import { CitationCheck, Source, TokenUsage } from '../types';
+import { complete } from './llm';
+import { BIBLIOGRAPHY_HEADING } from './report';
+
+// Checks the [n] citations of a research answer. A marker whose number no source has is always
+// flagged; with verification on, the model is also asked whether each cited source supports
+// the sentence the marker ends, in one call for the whole answer.
+
+const VERIFY_KEY = 'research_verify_citations';
+const MAX_VERIFIED_CLAIMS = 40;
+const EVIDENCE_CHARS = 1500;
+
+export const getVerifyCitations = () => localStorage.getItem(VERIFY_KEY) === 'true';
+
+export const setVerifyCitations = (enabled: boolean) => {
+    localStorage.setItem(VERIFY_KEY, String(enabled));
+};
+
+// Brackets in code and math are not rendered as citations; blanked out so marker positions stay the same
+const blankCode = (text: string) =>
+    text.replace(/```[\s\S]*?```|`[^`\n]*`|\$\$[\s\S]*?\$\$|\$[^$\n]+\$/g, code => ' '.repeat(code.length));
+
+export interface CitationMarker {
+    sourceId: string;
+    index: number; // Offset of the marker in the answer
+}
+
+// Every [n] marker of an answer that is a citation, in answer order: not in code or math, not a
+// [n](url) link and not an entry of a report's bibliography. The research node renders exactly these.
+export function findCitationMarkers(answer: string): CitationMarker[] {
+    const bibliography = answer.search(new RegExp(`^#{1,6}\\s+${BIBLIOGRAPHY_HEADING}\\s*$`, 'm'));
+    const text = blankCode(bibliography < 0 ? answer : answer.slice(0, bibliography));
+    return [...text.matchAll(/\[(\d+)\](?!\()/g)].map(match => ({ sourceId: match[1], index: match.index! }));
+}
+
+// The sentence a marker at `index` ends, without markdown and other markers
+function claimBefore(text: string, index: number): string {
+    const before = text.slice(0, index).replace(/(\s*\[\d+\])+\s*$/, '');
+    // A marker may come after the full stop of its own sentence
+    const body = before.replace(/[.!?]$/, '');
+    const start = Math.max(0, ...['\n', '. ', '! ', '? '].map(end => {
+        const at = body.lastIndexOf(end);
+        return at < 0 ? 0 : at + end.length;
+    }));
+    return before.slice(start)
+        .replace(/\[\d+\]|[*_#>`]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^(?:[-+]|\d+\.)\s+/, ''); // List bullet
+}
+
+// One unchecked check per citation marker, numbered in answer order
+export function findCitations(answer: string, sources: Source[]): CitationCheck[] {
+    const text = blankCode(answer);
+    const ids = new Set(sources.map(source => source.id));
+    return findCitationMarkers(answer).map(({ sourceId, index }, marker) => ({
+        marker,
+        sourceId,
+        claim: claimBefore(text, index),
+        status: ids.has(sourceId) ? 'unchecked' : 'missing'
+    }));
+}
+
+const evidence = (source: Source) =>
+    source.passages?.length ? source.passages.join('\n...\n') : (source.content || '').slice(0, EVIDENCE_CHARS);
+
+const pairKey = (check: CitationCheck) => `${check.sourceId}\n${check.claim}`;
+
+// Asks the model about every distinct claim and source pair; checks it did not answer for stay unchecked
+export async function verifyCitations(
+    checks: CitationCheck[],
+    sources: Source[],
+    onUsage: (usage: TokenUsage) => void,
+    signal?: AbortSignal
+): Promise<CitationCheck[]> {
+    const byId = new Map(sources.map(source => [source.id, source]));
+    const pairs = new Map<string, { claim: string; source: Source }>();
+    for (const check of checks) {
+        if (check.status === 'missing' || !check.claim || pairs.size >= MAX_VERIFIED_CLAIMS) continue;
+        pairs.set(pairKey(check), { claim: check.claim, source: byId.get(check.sourceId)! });
+    }
+    if (pairs.size === 0) return checks;
+
+    const keys = [...pairs.keys()];
+    const response = await complete({
+        messages: [
+            {
+                role: 'system',
+                content: `You check the citations of a research answer. For each numbered claim, decide whether the text of its cited source supports it: the source states it or directly implies it. A claim the source only partly supports, or that adds numbers or details the source does not have, is not supported. Return ONLY a JSON object like {"results": [{"claim": 1, "supported": true, "reason": "short explanation"}]} with one entry per claim.`
+            },
+            {
+                role: 'user',
+                content: [...pairs.values()].map(({ claim, source }, index) =>
+                    `Claim ${index + 1}: ${claim}\nCited source [${source.id}] ${source.title}:\n${evidence(source)}`
+                ).join('\n\n---\n\n')
+            }
+        ],
+        json: true
+    }, { signal });
+    if (response.usage) onUsage(response.usage);
+
+    const verdicts = new Map<string, { supported: boolean; reason?: string }>();
+    for (const result of JSON.parse(response.text || '{}').results || []) {
+        const key = keys[Number(result.claim) - 1];
+        if (key) verdicts.set(key, { supported: result.supported === true, reason: result.reason || undefined });
+    }
+
+    return checks.map(check => {
+        const verdict = verdicts.get(pairKey(check));
+        if (!verdict || check.status === 'missing') return check;
+        return { ...check, status: verdict.supported ? 'supported' : 'unsupported', reason: verdict.reason };
+    });
+}
+
+// e.g. "12 supported, 1 unsupported, 1 missing source"
+export function describeCitationChecks(checks: CitationCheck[]): string {
+    const count = (status: CitationCheck['status']) => checks.filter(check => check.status === status).length;
+    const parts: [number, string][] = [
+        [count('supported'), 'supported'],
+        [count('unsupported'), 'unsupported'],
+        [count('missing'), count('missing') === 1 ? 'missing source' : 'missing sources'],
+        [count('unchecked'), 'unchecked']
+    ];
+    return parts
+        .filter(([n]) => n > 0)
+        .map(([n, label]) => `${n} ${label}`)
+        .join(', ');
+}
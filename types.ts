@@ -1,28 +1,90 @@
 import { Node } from '@xyflow/react';
 
+export type ReasoningMode = 'off' | 'auto' | 'light' | 'medium' | 'heavy';
+
+// Tokens spent by a single model call
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean; // Provider didn't report usage, counted locally
+}
+
+// Summary of the ancestors up to and including a node, cached on that node by the context builder
+export interface ContextSummary {
+  key: string; // Identifies exactly which turns (and versions) were summarized
+  text: string;
+}
+
+// Aggregated usage of a node and its descendants, shown next to collapsedCount
+export interface SubtreeUsage {
+  tokens: number;
+  label: string;
+  details: string;
+}
+
+// A tool call made while answering, with its result once it has run
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: string; // Raw JSON as produced by the model
+  round: number; // Agent loop round the call was made in, starting at 1
+  status: 'running' | 'done' | 'error';
+  result?: string; // What was sent back to the model
+}
+
+// One generated answer of a ChatNode; regenerating adds a version instead of overwriting
+export interface ResponseVersion {
+  text: string;
+  reasoning?: string; // Thinking trace returned alongside the answer
+  modelName?: string;
+  createdAt?: number; // Missing for answers generated before versions were kept
+  stopped?: boolean;
+  highlights?: string[]; // Quotes branched from this version
+  toolCalls?: ToolCallRecord[];
+  sources?: Source[];
+}
+
 export interface ChatNodeData extends Record<string, unknown> {
   id: string;
   inputText?: string;
+  // aiResponse, reasoning, modelName, stopped, highlights, toolCalls and sources mirror the active response version
   aiResponse?: string;
+  reasoning?: string; // Not sent to descendants unless enabled in Settings
+  responses?: ResponseVersion[];
+  activeResponseIndex?: number;
   isSearchEnabled?: boolean;
-  reasoningMode?: 'off' | 'auto' | 'light' | 'medium' | 'heavy';
+  enabledTools?: string[]; // Registry tools switched on for this node (web_search follows isSearchEnabled)
+  reasoningMode?: ReasoningMode;
+  profileId?: string; // Model profile selected for this node
+  promptPresetId?: string; // System prompt preset; the canvas default applies when unset
+  modelName?: string; // Model that produced aiResponse
+  stopped?: boolean; // Generation was stopped by the user; aiResponse holds the partial answer
+  toolCalls?: ToolCallRecord[]; // Tool calls behind aiResponse, also sent to descendants
+  sources?: Source[]; // Search results found for or cited by aiResponse, numbered as in its [n] markers
+  inheritedSources?: Source[]; // Sources of the branch this node was created from; new ones continue the numbering
   quote?: string;
+  quoteVersion?: number; // Parent response version the quote was taken from
   isRoot?: boolean;
   onBranch?: (text: string, sourceId: string) => void;
   highlights?: string[];
+  usage?: TokenUsage[]; // Every model call made for this node, including regenerations
+  contextSummary?: ContextSummary;
   collapsed?: boolean;
   collapsedCount?: number;
+  collapsedUsage?: SubtreeUsage;
   onCollapse?: (id: string, shouldCollapse: boolean) => void;
   width?: number;
   height?: number;
 }
 
-export type ResearchStepStatus = 'pending' | 'running' | 'done';
+export type ResearchStepStatus = 'pending' | 'running' | 'done' | 'stopped';
 
 export interface ResearchStep {
   id: string;
   label: string;
   status: ResearchStepStatus;
+  cached?: boolean; // Served from the research cache, in part or whole
 }
 
 export interface Source {
@@ -31,20 +93,42 @@ export interface Source {
   url: string;
   favicon?: string;
   content?: string;
+  passages?: string[]; // Parts of the full page a research answer was written from
+  accessedAt?: number; // When research found it, for the report bibliography
+}
+
+export type CitationStatus = 'supported' | 'unsupported' | 'missing' | 'unchecked';
+
+// One [n] marker of a research answer and whether its source backs the claim before it
+export interface CitationCheck {
+  marker: number; // Position among the answer's [n] markers, from 0
+  sourceId: string;
+  claim: string;
+  status: CitationStatus; // 'missing': no source has this number; 'unchecked': not sent to the model
+  reason?: string; // The model's explanation when it was asked
 }
 
 export interface ResearchNodeData extends Record<string, unknown> {
   id: string;
   query: string;
-  status: 'idle' | 'running' | 'completed' | 'error';
+  status: 'idle' | 'running' | 'planning' | 'completed' | 'error' | 'stopped'; // 'planning': queries wait for review
   steps: ResearchStep[];
   answer: string;
   sources: Source[];
   error?: string;
-  // Callback for consistency, though maybe not used directly in research
-  onBranch?: (text: string, sourceId: string) => void;
+  promptPresetId?: string; // Persona for the synthesis step; the canvas default applies when unset
+  citationChecks?: CitationCheck[];
+  planFirst?: boolean; // Show the generated queries for editing before searching
+  plannedQueries?: string[]; // Queries of the plan being reviewed, then the set that was approved
+  report?: boolean; // Write an outlined report with a bibliography instead of a free-form answer
+  inheritedSources?: Source[]; // Pool of the research this follow-up branched from, without content
+  usage?: TokenUsage[]; // Query generation and synthesis calls of every run
+  contextSummary?: ContextSummary;
+  // Chat branches from selected text and section headings, follow-up research from the footer
+  onBranch?: (text: string, sourceId: string, kind?: 'chatNode' | 'researchNode') => void;
   collapsed?: boolean;
   collapsedCount?: number;
+  collapsedUsage?: SubtreeUsage;
   onCollapse?: (id: string, shouldCollapse: boolean) => void;
   width?: number;
   height?: number;
@@ -56,6 +140,7 @@ export interface NoteNodeData extends Record<string, unknown> {
   onBranch?: (text: string, sourceId: string) => void;
   collapsed?: boolean;
   collapsedCount?: number;
+  collapsedUsage?: SubtreeUsage;
   onCollapse?: (id: string, shouldCollapse: boolean) => void;
   width?: number;
   height?: number;
@@ -74,6 +159,8 @@ export interface Canvas {
   nodes: AppNode[];
   edges: any[]; // Using any[] to match Edge type from @xyflow/react
   viewport: { x: number; y: number; zoom: number };
+  usage?: TokenUsage[]; // Canvas-level calls such as title generation
+  promptPresetId?: string; // Default system prompt preset for the canvas's nodes
   createdAt: number;
   updatedAt: number;
 }
@@ -8,6 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // Brave Search sends no CORS headers, see services/search/brave.ts
+          '/brave-search': {
+            target: 'https://api.search.brave.com',
+            changeOrigin: true,
+            rewrite: (path) => path.replace(/^\/brave-search/, ''),
+          },
+        },
       },
       plugins: [react()],
       define: {